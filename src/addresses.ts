@@ -0,0 +1,93 @@
+import chalk from "chalk";
+import { decodeBase58 } from "./base58";
+
+// Length in bytes of a Solana public key
+const PUBLIC_KEY_LENGTH = 32;
+
+// An address that failed validation
+export interface InvalidAddress {
+  address: string;
+  position: number;
+}
+
+// Options for validateAddresses
+export interface ValidateAddressesOptions {
+  // Where the addresses came from, used in messages (e.g. "--addresses")
+  source: string;
+  // Drop invalid addresses with a warning instead of throwing
+  skipInvalid?: boolean;
+}
+
+/**
+ * Checks whether a string is a base58 Solana public key
+ * @param address Address to check
+ * @returns True if the address decodes to exactly 32 bytes
+ */
+export function isValidAddress(address: string): boolean {
+  const bytes = decodeBase58(address);
+  return bytes !== null && bytes.length === PUBLIC_KEY_LENGTH;
+}
+
+/**
+ * Finds the invalid addresses in a list
+ * @param addresses Addresses to check
+ * @returns Invalid addresses with their 1-based positions
+ */
+export function findInvalidAddresses(addresses: string[]): InvalidAddress[] {
+  return addresses
+    .map((address, index) => ({ address, position: index + 1 }))
+    .filter(({ address }) => !isValidAddress(address));
+}
+
+/**
+ * Formats invalid addresses for an error message
+ * @param invalid Invalid addresses
+ * @returns One line per address
+ */
+export function formatInvalidAddresses(invalid: InvalidAddress[]): string {
+  return invalid
+    .map(({ address, position }) => `  #${position}: "${address}"`)
+    .join("\n");
+}
+
+/**
+ * Validates an address list and collapses duplicates
+ * Surrounding whitespace is trimmed before validation
+ * @param addresses Addresses to validate
+ * @param options Validation options
+ * @returns Valid, de-duplicated addresses in input order
+ */
+export function validateAddresses(
+  addresses: string[],
+  options: ValidateAddressesOptions
+): string[] {
+  const trimmed = addresses.map((a) => a.trim());
+  const invalid = findInvalidAddresses(trimmed);
+
+  if (invalid.length > 0) {
+    const message = `${invalid.length} invalid address${
+      invalid.length === 1 ? "" : "es"
+    } in ${options.source}:\n${formatInvalidAddresses(invalid)}`;
+
+    if (!options.skipInvalid) {
+      throw new Error(message);
+    }
+    console.error(chalk.yellow(`Skipping ${message}`));
+  }
+
+  const bad = new Set(invalid.map(({ position }) => position - 1));
+  const valid = trimmed.filter((_, index) => !bad.has(index));
+  const unique = Array.from(new Set(valid));
+
+  if (unique.length < valid.length) {
+    console.error(
+      chalk.yellow(
+        `Collapsed ${valid.length - unique.length} duplicate addresses in ${
+          options.source
+        }`
+      )
+    );
+  }
+
+  return unique;
+}
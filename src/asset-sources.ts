@@ -0,0 +1,118 @@
+// On-chain groupings that webhook addresses can be resolved from
+export const ASSET_SOURCE_KINDS = [
+  "collection",
+  "creator",
+  "authority",
+  "owner",
+] as const;
+
+export type AssetSourceKind = (typeof ASSET_SOURCE_KINDS)[number];
+
+// Human-readable description of each source, used in prompts and messages
+export const ASSET_SOURCE_LABELS: Record<AssetSourceKind, string> = {
+  collection: "NFTs in a collection",
+  creator: "Assets by a verified creator",
+  authority: "Assets with an update authority",
+  owner: "Assets held by a wallet",
+};
+
+// Filter modes for compressed NFTs
+export const COMPRESSED_FILTERS = ["include", "exclude", "only"];
+
+// Filter modes for burnt assets
+export const BURNT_FILTERS = ["include", "exclude"];
+
+// A grouping to resolve asset addresses from
+export interface AssetSource {
+  kind: AssetSourceKind;
+  address: string;
+}
+
+// Filters applied to resolved assets
+export interface AssetFilters {
+  compressed: "include" | "exclude" | "only";
+  burnt: "include" | "exclude";
+}
+
+// Filters that keep every asset
+export const DEFAULT_ASSET_FILTERS: AssetFilters = {
+  compressed: "include",
+  burnt: "include",
+};
+
+/**
+ * Builds asset sources from command options
+ * Each of --collection, --creator, --authority and --owner takes a
+ * comma-separated list of addresses
+ * @param options Command options
+ * @returns Asset sources in option order
+ */
+export function parseAssetSources(
+  options: Partial<Record<AssetSourceKind, string>>
+): AssetSource[] {
+  return ASSET_SOURCE_KINDS.flatMap((kind) =>
+    (options[kind] || "")
+      .split(",")
+      .map((address) => address.trim())
+      .filter((address) => address !== "")
+      .map((address) => ({ kind, address }))
+  );
+}
+
+/**
+ * Builds asset filters from command options
+ * @param options Command options
+ * @returns Asset filters, defaulting to include everything
+ */
+export function parseAssetFilters(options: {
+  compressed?: string;
+  burnt?: string;
+}): AssetFilters {
+  if (options.compressed && !COMPRESSED_FILTERS.includes(options.compressed)) {
+    throw new Error(
+      `Invalid compressed filter: ${
+        options.compressed
+      } (valid filters are: ${COMPRESSED_FILTERS.join(", ")})`
+    );
+  }
+  if (options.burnt && !BURNT_FILTERS.includes(options.burnt)) {
+    throw new Error(
+      `Invalid burnt filter: ${
+        options.burnt
+      } (valid filters are: ${BURNT_FILTERS.join(", ")})`
+    );
+  }
+  return {
+    ...DEFAULT_ASSET_FILTERS,
+    ...(options.compressed
+      ? { compressed: options.compressed as AssetFilters["compressed"] }
+      : {}),
+    ...(options.burnt ? { burnt: options.burnt as AssetFilters["burnt"] } : {}),
+  };
+}
+
+/**
+ * Describes an asset source for messages
+ * @param source Asset source
+ * @returns Description, e.g. "creator 9xQe..."
+ */
+export function describeAssetSource(source: AssetSource): string {
+  return `${source.kind} ${source.address}`;
+}
+
+/**
+ * Checks whether an asset passes the filters
+ * @param asset DAS asset
+ * @param filters Asset filters
+ * @returns True if the asset should be kept
+ */
+export function matchesAssetFilters(
+  asset: any,
+  filters: AssetFilters
+): boolean {
+  const compressed = Boolean(asset.compression?.compressed);
+  if (filters.compressed === "exclude" && compressed) return false;
+  if (filters.compressed === "only" && !compressed) return false;
+  if (filters.burnt === "exclude" && asset.burnt) return false;
+  return true;
+}
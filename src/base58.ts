@@ -0,0 +1,70 @@
+// Bitcoin base58 alphabet, as used for Solana addresses
+const ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Encodes bytes as a base58 string
+ * @param bytes Bytes to encode
+ * @returns Base58 string
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  const digits: number[] = [];
+
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+
+  // Leading zero bytes are encoded as leading "1"s
+  let prefix = "";
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    prefix += ALPHABET[0];
+  }
+
+  return (
+    prefix +
+    digits
+      .reverse()
+      .map((d) => ALPHABET[d])
+      .join("")
+  );
+}
+
+/**
+ * Decodes a base58 string into bytes
+ * @param text Base58 string
+ * @returns Decoded bytes, or null if the string contains invalid characters
+ */
+export function decodeBase58(text: string): Uint8Array | null {
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    let carry = ALPHABET.indexOf(char);
+    if (carry === -1) return null;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Leading "1"s are decoded as leading zero bytes
+  for (const char of text) {
+    if (char !== ALPHABET[0]) break;
+    bytes.push(0);
+  }
+
+  return Uint8Array.from(bytes.reverse());
+}
@@ -0,0 +1,553 @@
+import axios, { AxiosError, AxiosRequestConfig } from "axios";
+import {
+  AssetFilters,
+  AssetSource,
+  AssetSourceKind,
+  DEFAULT_ASSET_FILTERS,
+  matchesAssetFilters,
+} from "./asset-sources";
+import { scrubSecrets } from "./secrets";
+
+// Define webhook types based on Helius API
+export interface Webhook {
+  webhookID: string;
+  webhookURL: string;
+  transactionTypes: string[];
+  accountAddresses: string[];
+  webhookType: string;
+  authHeader?: string;
+  txnStatus?: string;
+  encoding?: string;
+  encoding_config?: {
+    format: string;
+    compression: string;
+  };
+}
+
+// Kind of failure behind a HeliusApiError
+export type ApiErrorKind =
+  | "auth"
+  | "not-found"
+  | "rate-limit"
+  | "network"
+  | "timeout"
+  | "api";
+
+// Solana networks with their own RPC endpoint
+export type Network = "mainnet" | "devnet";
+
+// Options for asset lookups
+export interface AssetLookupOptions {
+  // Network whose RPC endpoint serves the lookup (defaults to mainnet)
+  network?: Network;
+  // Maximum number of addresses to return
+  limit?: number;
+  // Compressed and burnt asset filters (default keeps everything)
+  filters?: AssetFilters;
+  // Called with the running total after each page
+  onProgress?: (count: number) => void;
+}
+
+// DAS method and parameters for each asset source
+const DAS_METHODS: Record<
+  AssetSourceKind,
+  { method: string; params: (address: string) => Record<string, unknown> }
+> = {
+  collection: {
+    method: "getAssetsByGroup",
+    params: (address) => ({ groupKey: "collection", groupValue: address }),
+  },
+  creator: {
+    method: "getAssetsByCreator",
+    params: (address) => ({ creatorAddress: address, onlyVerified: true }),
+  },
+  authority: {
+    method: "getAssetsByAuthority",
+    params: (address) => ({ authorityAddress: address }),
+  },
+  owner: {
+    method: "getAssetsByOwner",
+    params: (address) => ({ ownerAddress: address }),
+  },
+};
+
+// Largest page the DAS API returns
+const DAS_PAGE_SIZE = 1000;
+
+/**
+ * Gets the network a webhook type delivers from
+ * @param webhookType Webhook type, e.g. enhancedDevnet
+ * @returns "devnet" for devnet webhook types, otherwise "mainnet"
+ */
+export function webhookNetwork(webhookType?: string): Network {
+  return webhookType && /Devnet$/.test(webhookType) ? "devnet" : "mainnet";
+}
+
+// Networks webhooks can deliver from
+export const NETWORKS: Network[] = ["mainnet", "devnet"];
+
+/**
+ * Gets the equivalent of a webhook type on another network
+ * @param webhookType Webhook type, e.g. enhancedDevnet
+ * @param network Target network
+ * @returns Webhook type for the network, e.g. enhanced for mainnet
+ */
+export function webhookTypeForNetwork(
+  webhookType: string,
+  network: Network
+): string {
+  const base = webhookType.replace(/Devnet$/, "");
+  return network === "devnet" ? `${base}Devnet` : base;
+}
+
+// Retry and timeout settings for API requests
+export interface RequestOptions {
+  // Number of retries after the first attempt
+  retries: number;
+  // Per-request timeout in milliseconds
+  timeout: number;
+}
+
+// Default retry and timeout settings
+export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
+  retries: 3,
+  timeout: 30000,
+};
+
+// Default Helius endpoints
+export const DEFAULT_BASE_URL = "https://api.helius.xyz/v0";
+export const DEFAULT_RPC_URL = "https://mainnet.helius-rpc.com/";
+export const DEFAULT_DEVNET_RPC_URL = "https://devnet.helius-rpc.com/";
+
+// Options for constructing a HeliusApiClient
+export interface HeliusClientOptions extends Partial<RequestOptions> {
+  // API key, or a function that returns it for every request
+  apiKey: string | (() => string);
+  // Webhook API base URL (defaults to DEFAULT_BASE_URL)
+  baseUrl?: string;
+  // Mainnet RPC endpoint for DAS lookups (defaults to DEFAULT_RPC_URL)
+  rpcUrl?: string;
+  // Devnet RPC endpoint for DAS lookups (defaults to DEFAULT_DEVNET_RPC_URL)
+  devnetRpcUrl?: string;
+  // Called with a description of every request, with the API key redacted
+  debug?: (message: string) => void;
+}
+
+// Base and maximum delay between retries, in milliseconds
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 30000;
+
+// Statuses that are worth retrying
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+/**
+ * Parses a Retry-After header
+ * @param value Header value, in seconds or as an HTTP date
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Error returned by the Helius API or raised while reaching it
+ */
+export class HeliusApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  body?: unknown;
+  requestId?: string;
+  // Delay requested by the server's Retry-After header, in milliseconds
+  retryAfter?: number;
+
+  constructor(
+    message: string,
+    kind: ApiErrorKind,
+    details: {
+      status?: number;
+      body?: unknown;
+      requestId?: string;
+      retryAfter?: number;
+    } = {}
+  ) {
+    super(message);
+    this.name = "HeliusApiError";
+    this.kind = kind;
+    this.status = details.status;
+    this.body = details.body;
+    this.requestId = details.requestId;
+    this.retryAfter = details.retryAfter;
+  }
+
+  /**
+   * Builds a HeliusApiError from an axios error
+   * @param error Axios error
+   * @param timeout Timeout that was in effect, in milliseconds
+   * @returns Typed API error
+   */
+  static fromAxiosError(error: AxiosError, timeout: number): HeliusApiError {
+    if (error.response) {
+      const { status, data, headers } = error.response;
+      const kind: ApiErrorKind =
+        status === 401 || status === 403
+          ? "auth"
+          : status === 404
+          ? "not-found"
+          : status === 429
+          ? "rate-limit"
+          : "api";
+      return new HeliusApiError(
+        `API Error: ${status} - ${JSON.stringify(data)}`,
+        kind,
+        {
+          status,
+          body: data,
+          requestId: headers?.["x-request-id"] as string | undefined,
+          retryAfter: parseRetryAfter(headers?.["retry-after"]),
+        }
+      );
+    }
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new HeliusApiError(
+        `Request timed out after ${timeout}ms`,
+        "timeout"
+      );
+    }
+    if (error.request) {
+      return new HeliusApiError(
+        `No response received from API${error.code ? ` (${error.code})` : ""}`,
+        "network"
+      );
+    }
+    return new HeliusApiError(
+      `Error setting up request: ${error.message}`,
+      "network"
+    );
+  }
+}
+
+/**
+ * Computes the delay before a retry
+ * Uses Retry-After when the server sent it, otherwise exponential backoff with jitter
+ * @param attempt Zero-based retry number
+ * @param error The error that caused the retry
+ * @returns Delay in milliseconds
+ */
+function retryDelay(attempt: number, error: HeliusApiError): number {
+  if (error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter, RETRY_MAX_DELAY);
+  }
+  const backoff = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Checks whether a failed request can safely be retried
+ * Non-idempotent requests are only retried on 429, since the server rejected
+ * them without creating anything
+ * @param error The error the request failed with
+ * @param idempotent Whether repeating the request is harmless
+ * @returns True if the request should be retried
+ */
+function isRetryable(error: HeliusApiError, idempotent: boolean): boolean {
+  if (error.status !== undefined) {
+    if (!idempotent) return error.status === 429;
+    return RETRYABLE_STATUSES.includes(error.status);
+  }
+  return idempotent && error.kind !== "api";
+}
+
+/**
+ * Base API client for Helius API
+ * Holds no global state, so several clients can be used side by side
+ */
+export class HeliusApiClient {
+  private options: HeliusClientOptions = { apiKey: "" };
+  private baseUrl = DEFAULT_BASE_URL;
+  private rpcUrl = DEFAULT_RPC_URL;
+  private devnetRpcUrl = DEFAULT_DEVNET_RPC_URL;
+  private requestOptions: RequestOptions = { ...DEFAULT_REQUEST_OPTIONS };
+
+  /**
+   * @param options API key, endpoints and retry settings
+   */
+  constructor(options: HeliusClientOptions) {
+    this.configure(options);
+  }
+
+  /**
+   * Changes the client options; options that are not given keep their value
+   * @param options Options to change
+   */
+  configure(options: Partial<HeliusClientOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.baseUrl = this.options.baseUrl || DEFAULT_BASE_URL;
+    this.rpcUrl = this.options.rpcUrl || DEFAULT_RPC_URL;
+    this.devnetRpcUrl = this.options.devnetRpcUrl || DEFAULT_DEVNET_RPC_URL;
+    this.setRequestOptions({
+      ...(options.retries !== undefined ? { retries: options.retries } : {}),
+      ...(options.timeout !== undefined ? { timeout: options.timeout } : {}),
+    });
+  }
+
+  /**
+   * Gets the API key for a request
+   * @returns API key
+   */
+  private apiKey(): string {
+    const { apiKey } = this.options;
+    return typeof apiKey === "function" ? apiKey() : apiKey;
+  }
+
+  /**
+   * Overrides the retry and timeout settings
+   * @param options Settings to override
+   */
+  setRequestOptions(options: Partial<RequestOptions>): void {
+    this.requestOptions = { ...this.requestOptions, ...options };
+  }
+
+  /**
+   * Creates a client with the same settings, except for the given options
+   * @param options Options to change, e.g. another API key
+   * @returns New client
+   */
+  withOptions(options: Partial<HeliusClientOptions>): HeliusApiClient {
+    return new HeliusApiClient({
+      ...this.options,
+      ...this.requestOptions,
+      ...options,
+    });
+  }
+
+  /**
+   * Sends a request, retrying rate-limited and transient failures
+   * @param config Axios request config
+   * @param idempotent Whether repeating the request is harmless (defaults to true for everything but POST)
+   * @returns Response data
+   */
+  private async send<T>(
+    config: AxiosRequestConfig,
+    idempotent = config.method !== "POST"
+  ): Promise<T> {
+    const { retries, timeout } = this.requestOptions;
+
+    for (let attempt = 0; ; attempt++) {
+      this.options.debug?.(
+        `${config.method} ${scrubSecrets(axios.getUri(config))}${
+          attempt > 0 ? ` (retry ${attempt})` : ""
+        }`
+      );
+      try {
+        const response = await axios({ ...config, timeout });
+        return response.data;
+      } catch (error) {
+        const apiError = HeliusApiError.fromAxiosError(
+          error as AxiosError,
+          timeout
+        );
+        if (attempt >= retries || !isRetryable(apiError, idempotent)) {
+          throw apiError;
+        }
+        const delay = retryDelay(attempt, apiError);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Makes a request to the Helius API
+   * @param method HTTP method
+   * @param endpoint API endpoint
+   * @param data Request data
+   * @returns Response data
+   */
+  async request<T>(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    endpoint: string,
+    data?: any
+  ): Promise<T> {
+    const url = `${this.baseUrl}${endpoint}`;
+
+    const config: AxiosRequestConfig = {
+      method,
+      url,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      params: {
+        "api-key": this.apiKey(),
+      },
+    };
+
+    if (data && (method === "POST" || method === "PUT")) {
+      config.data = data;
+    }
+
+    return this.send<T>(config);
+  }
+
+  /**
+   * Gets all webhooks
+   * @returns List of webhooks
+   */
+  async getAllWebhooks(): Promise<Webhook[]> {
+    return this.request<Webhook[]>("GET", "/webhooks");
+  }
+
+  /**
+   * Gets a webhook by ID
+   * @param id Webhook ID
+   * @returns Webhook details
+   */
+  async getWebhook(id: string): Promise<Webhook> {
+    return this.request<Webhook>("GET", `/webhooks/${id}`);
+  }
+
+  /**
+   * Creates a new webhook
+   * @param webhook Webhook data
+   * @returns Created webhook
+   */
+  async createWebhook(webhook: Omit<Webhook, "webhookID">): Promise<Webhook> {
+    return this.request<Webhook>("POST", "/webhooks", webhook);
+  }
+
+  /**
+   * Updates a webhook
+   * @param id Webhook ID
+   * @param webhook Updated webhook data
+   * @returns Updated webhook
+   */
+  async updateWebhook(
+    id: string,
+    webhook: Partial<Omit<Webhook, "id">>
+  ): Promise<Webhook> {
+    return this.request<Webhook>("PUT", `/webhooks/${id}`, webhook);
+  }
+
+  /**
+   * Deletes a webhook
+   * @param id Webhook ID
+   * @returns Success status
+   */
+  async deleteWebhook(id: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>("DELETE", `/webhooks/${id}`);
+  }
+
+  /**
+   * Gets the RPC URL for a network
+   * @param network Solana network
+   * @returns RPC URL from the selected profile
+   */
+  rpcUrlFor(network: Network): string {
+    return network === "devnet" ? this.devnetRpcUrl : this.rpcUrl;
+  }
+
+  /**
+   * Fetches asset addresses from a DAS grouping
+   * Pages through the DAS method for the source with cursors, falling back
+   * to `after` the last asset ID when the endpoint returns no cursor
+   * @param source Collection, creator, authority or owner to look up
+   * @param options Network, result cap, filters and progress callback
+   * @returns Array of asset addresses
+   */
+  async getAssetAddresses(
+    source: AssetSource,
+    options: AssetLookupOptions = {}
+  ): Promise<string[]> {
+    const assetAddresses: string[] = [];
+    const limit = options.limit ?? Infinity;
+    const filters = options.filters || DEFAULT_ASSET_FILTERS;
+    const { method, params } = DAS_METHODS[source.kind];
+    let cursor: string | undefined;
+    let after: string | undefined;
+
+    // The Digital Asset Standard (DAS) API is served from the RPC endpoint of the network
+    const dasApiUrl = this.rpcUrlFor(options.network || "mainnet");
+
+    while (assetAddresses.length < limit) {
+      // Filters apply after fetching, so only shrink the page when nothing is filtered
+      const pageSize =
+        filters.compressed === "include" && filters.burnt === "include"
+          ? Math.min(DAS_PAGE_SIZE, limit - assetAddresses.length)
+          : DAS_PAGE_SIZE;
+      const data = await this.send<any>(
+        {
+          method: "POST",
+          url: dasApiUrl,
+          headers: {
+            "Content-Type": "application/json",
+          },
+          data: JSON.stringify({
+            jsonrpc: "2.0",
+            id: "helius-cli",
+            method,
+            params: {
+              ...params(source.address),
+              limit: pageSize,
+              sortBy: { sortBy: "id", sortDirection: "asc" },
+              ...(cursor ? { cursor } : after ? { after } : {}),
+            },
+          }),
+          params: {
+            "api-key": this.apiKey(),
+          },
+        },
+        // DAS methods only read, so they are safe to retry
+        true
+      );
+
+      if (data.error) {
+        throw new HeliusApiError(
+          `DAS Error: ${data.error.code} - ${data.error.message}`,
+          "api",
+          { body: data.error }
+        );
+      }
+
+      const items: any[] = data.result?.items || [];
+
+      // Extract asset addresses (asset IDs) from the response
+      assetAddresses.push(
+        ...items
+          .filter((item) => matchesAssetFilters(item, filters))
+          .map((item) => item.id)
+          .slice(0, limit - assetAddresses.length)
+      );
+      options.onProgress?.(assetAddresses.length);
+
+      // A short page is the last one
+      if (items.length < pageSize) {
+        break;
+      }
+
+      cursor = data.result.cursor;
+      after = cursor ? undefined : items[items.length - 1].id;
+    }
+
+    return assetAddresses;
+  }
+
+  /**
+   * Fetches NFT addresses from a collection
+   * @param collectionAddress The collection address
+   * @param options Network, result cap, filters and progress callback
+   * @returns Array of NFT addresses
+   */
+  async getNftAddressesFromCollection(
+    collectionAddress: string,
+    options: AssetLookupOptions = {}
+  ): Promise<string[]> {
+    return this.getAssetAddresses(
+      { kind: "collection", address: collectionAddress },
+      options
+    );
+  }
+}
+
+export default HeliusApiClient;
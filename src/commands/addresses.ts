@@ -0,0 +1,402 @@
+import * as fs from "fs";
+import { Command } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import { heliusApi, Webhook } from "../api";
+import { validateAddresses } from "../addresses";
+import { ensureConfig, getAddressLimit } from "../config";
+import {
+  exitWithError,
+  fail,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import { confirmPrompt } from "../prompt";
+import { resolveWebhookID } from "./labels";
+
+// Default number of addresses shown per page by `addresses list`
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Split raw text into individual addresses
+ * Accepts commas, whitespace and newlines as separators and ignores `#` comments
+ * @param text Raw text
+ * @returns List of addresses
+ */
+function parseAddressText(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, ""))
+    .join(" ")
+    .split(/[\s,]+/)
+    .map((a) => a.trim())
+    .filter((a) => a !== "");
+}
+
+/**
+ * Read all of stdin as a string
+ * @returns Stdin contents
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Collect addresses from command arguments, a file and stdin
+ * Stdin is read when the file is "-", or when nothing else was given and stdin is piped
+ * @param args Addresses given as arguments
+ * @param file Optional path to a file with addresses ("-" for stdin)
+ * @param skipInvalid Drop invalid addresses instead of failing
+ * @returns Validated, de-duplicated list of addresses in input order
+ */
+async function collectAddresses(
+  args: string[],
+  file?: string,
+  skipInvalid?: boolean
+): Promise<string[]> {
+  const addresses = parseAddressText(args.join(","));
+  const sources = addresses.length > 0 ? ["arguments"] : [];
+
+  if (file === "-") {
+    addresses.push(...parseAddressText(await readStdin()));
+    sources.push("stdin");
+  } else if (file) {
+    addresses.push(...parseAddressText(fs.readFileSync(file, "utf8")));
+    sources.push(file);
+  } else if (addresses.length === 0 && !process.stdin.isTTY) {
+    addresses.push(...parseAddressText(await readStdin()));
+    sources.push("stdin");
+  }
+
+  return validateAddresses(addresses, {
+    source: sources.join(" and ") || "input",
+    skipInvalid,
+  });
+}
+
+/**
+ * Fetch a webhook, showing a spinner while it loads
+ * @param webhookID Webhook ID
+ * @returns Webhook details
+ */
+async function fetchWebhook(webhookID: string): Promise<Webhook> {
+  const spinner = ora(`Fetching webhook ${webhookID}...`).start();
+  try {
+    const webhook = await heliusApi.getWebhook(webhookID);
+    spinner.succeed(
+      `Found webhook ${webhookID} (${webhook.accountAddresses.length} addresses)`
+    );
+    return webhook;
+  } catch (error) {
+    spinner.fail(`Failed to fetch webhook ${webhookID}`);
+    throw error;
+  }
+}
+
+/**
+ * Save a new address list on a webhook, keeping all other fields unchanged
+ * @param webhook Current webhook
+ * @param accountAddresses New address list
+ * @returns Updated webhook
+ */
+async function saveAddresses(
+  webhook: Webhook,
+  accountAddresses: string[]
+): Promise<Webhook> {
+  const spinner = ora(`Updating webhook ${webhook.webhookID}...`).start();
+  try {
+    const { webhookID, ...data } = webhook;
+    const updated = await heliusApi.updateWebhook(webhookID, {
+      ...data,
+      accountAddresses,
+    });
+    spinner.succeed(
+      `Webhook now monitors ${updated.accountAddresses.length} addresses`
+    );
+    return updated;
+  } catch (error) {
+    spinner.fail(`Failed to update webhook ${webhook.webhookID}`);
+    throw error;
+  }
+}
+
+/**
+ * Exit with an error if no addresses were given
+ * @param addresses Collected addresses
+ */
+function requireAddresses(addresses: string[]): void {
+  if (addresses.length === 0) {
+    fail(
+      "No addresses given",
+      "Pass addresses as arguments, use --file, or pipe them in"
+    );
+  }
+}
+
+/**
+ * Register address management commands
+ * @param webhooks Commander `webhooks` command
+ */
+export function registerAddressCommands(webhooks: Command): void {
+  const addresses = webhooks
+    .command("addresses")
+    .description("Manage the account addresses of a webhook");
+
+  // List addresses page by page
+  addresses
+    .command("list <webhookID>")
+    .description("List the account addresses of a webhook")
+    .option("-p, --page <page>", "Page number", "1")
+    .option(
+      "--page-size <size>",
+      "Number of addresses per page",
+      String(DEFAULT_PAGE_SIZE)
+    )
+    .action(async (webhookID: string, options) => {
+      try {
+        // Ensure configuration is set
+        await ensureConfig();
+
+        webhookID = await resolveWebhookID(webhookID);
+
+        const page = parseInt(options.page, 10);
+        const pageSize = parseInt(options.pageSize, 10);
+
+        if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1) {
+          fail("--page and --page-size must be positive numbers");
+        }
+
+        const webhook = await fetchWebhook(webhookID);
+        const total = webhook.accountAddresses.length;
+
+        if (total === 0 && !isMachineOutput()) {
+          info(chalk.yellow("This webhook has no addresses."));
+          return;
+        }
+
+        const totalPages = Math.ceil(total / pageSize);
+        if (total > 0 && page > totalPages) {
+          fail(`Page ${page} is out of range (1-${totalPages})`);
+        }
+
+        const start = (page - 1) * pageSize;
+        const pageAddresses = webhook.accountAddresses.slice(
+          start,
+          start + pageSize
+        );
+
+        if (isMachineOutput()) {
+          printData({
+            webhookID,
+            total,
+            page,
+            pageSize,
+            addresses: pageAddresses,
+          });
+          return;
+        }
+
+        info();
+        pageAddresses.forEach((address, index) => {
+          info(`${chalk.dim(String(start + index + 1) + ".")} ${address}`);
+        });
+        info(
+          chalk.bold(
+            `\nShowing ${start + 1}-${
+              start + pageAddresses.length
+            } of ${total} (page ${page}/${totalPages})`
+          )
+        );
+      } catch (error) {
+        exitWithError("Error listing addresses:", error);
+      }
+    });
+
+  // Add addresses
+  addresses
+    .command("add <webhookID> [addresses...]")
+    .description("Add account addresses to a webhook")
+    .option("--file <path>", "Read addresses from a file (- for stdin)")
+    .option("--skip-invalid", "Drop invalid addresses instead of failing")
+    .action(async (webhookID: string, args: string[], options) => {
+      try {
+        // Ensure configuration is set
+        await ensureConfig();
+
+        webhookID = await resolveWebhookID(webhookID);
+
+        const input = await collectAddresses(
+          args,
+          options.file,
+          options.skipInvalid
+        );
+        requireAddresses(input);
+
+        const webhook = await fetchWebhook(webhookID);
+        const existing = new Set(webhook.accountAddresses);
+        const toAdd = input.filter((a) => !existing.has(a));
+        const alreadyPresent = input.length - toAdd.length;
+
+        info(
+          `${chalk.green(`${toAdd.length} to add`)}, ${chalk.yellow(
+            `${alreadyPresent} already present`
+          )}`
+        );
+
+        const total = webhook.accountAddresses.length + toAdd.length;
+        if (total > getAddressLimit()) {
+          fail(
+            `Webhook ${webhookID} would monitor ${total} addresses, more than the limit of ${getAddressLimit()} per webhook`,
+            "Create a webhook group with webhooks create --group to monitor more addresses"
+          );
+        }
+
+        if (toAdd.length === 0) {
+          info(chalk.yellow("Nothing to update"));
+        } else {
+          await saveAddresses(webhook, [...webhook.accountAddresses, ...toAdd]);
+          info(chalk.green(`Added ${toAdd.length} addresses.`));
+        }
+
+        if (isMachineOutput()) {
+          printData({ webhookID, added: toAdd.length, alreadyPresent });
+        }
+      } catch (error) {
+        exitWithError("Error adding addresses:", error);
+      }
+    });
+
+  // Remove addresses
+  addresses
+    .command("remove <webhookID> [addresses...]")
+    .description("Remove account addresses from a webhook")
+    .option("--file <path>", "Read addresses from a file (- for stdin)")
+    .option("--skip-invalid", "Drop invalid addresses instead of failing")
+    .action(async (webhookID: string, args: string[], options) => {
+      try {
+        // Ensure configuration is set
+        await ensureConfig();
+
+        webhookID = await resolveWebhookID(webhookID);
+
+        const input = await collectAddresses(
+          args,
+          options.file,
+          options.skipInvalid
+        );
+        requireAddresses(input);
+
+        const webhook = await fetchWebhook(webhookID);
+        const toRemove = new Set(input);
+        const remaining = webhook.accountAddresses.filter(
+          (a) => !toRemove.has(a)
+        );
+        const removed = webhook.accountAddresses.length - remaining.length;
+        // Count input addresses, since the webhook may hold duplicates
+        const current = new Set(webhook.accountAddresses);
+        const notPresent = input.filter((a) => !current.has(a)).length;
+
+        info(
+          `${chalk.red(`${removed} to remove`)}, ${chalk.yellow(
+            `${notPresent} not present`
+          )}`
+        );
+
+        if (removed === 0) {
+          info(chalk.yellow("Nothing to update"));
+        } else {
+          await saveAddresses(webhook, remaining);
+          info(chalk.green(`Removed ${removed} addresses.`));
+        }
+
+        if (isMachineOutput()) {
+          printData({ webhookID, removed, notPresent });
+        }
+      } catch (error) {
+        exitWithError("Error removing addresses:", error);
+      }
+    });
+
+  // Replace the whole address list
+  addresses
+    .command("replace <webhookID> [addresses...]")
+    .description("Replace all account addresses of a webhook")
+    .option("--file <path>", "Read addresses from a file (- for stdin)")
+    .option("--skip-invalid", "Drop invalid addresses instead of failing")
+    .option("-f, --force", "Skip confirmation prompt")
+    .action(async (webhookID: string, args: string[], options) => {
+      try {
+        // Ensure configuration is set
+        await ensureConfig();
+
+        webhookID = await resolveWebhookID(webhookID);
+
+        const input = await collectAddresses(
+          args,
+          options.file,
+          options.skipInvalid
+        );
+        requireAddresses(input);
+
+        const webhook = await fetchWebhook(webhookID);
+        const existing = new Set(webhook.accountAddresses);
+        const incoming = new Set(input);
+        const added = input.filter((a) => !existing.has(a)).length;
+        const removed = webhook.accountAddresses.filter(
+          (a) => !incoming.has(a)
+        ).length;
+        const kept = input.length - added;
+
+        info(
+          `${chalk.green(`${added} to add`)}, ${chalk.red(
+            `${removed} to remove`
+          )}, ${chalk.yellow(`${kept} unchanged`)}`
+        );
+
+        if (added === 0 && removed === 0) {
+          info(chalk.yellow("Nothing to update"));
+          if (isMachineOutput()) {
+            printData({ webhookID, added: 0, removed: 0, unchanged: kept });
+          }
+          return;
+        }
+
+        if (input.length > getAddressLimit()) {
+          fail(
+            `Webhook ${webhookID} would monitor ${
+              input.length
+            } addresses, more than the limit of ${getAddressLimit()} per webhook`,
+            "Create a webhook group with webhooks create --group to monitor more addresses"
+          );
+        }
+
+        // Confirm replacement unless force option is used
+        if (!options.force) {
+          const confirm = await confirmPrompt(
+            `Replace the ${webhook.accountAddresses.length} addresses of webhook ${webhookID} with ${input.length} addresses?`,
+            false
+          );
+
+          if (!confirm) {
+            info(chalk.yellow("Replace cancelled"));
+            return;
+          }
+        }
+
+        await saveAddresses(webhook, input);
+
+        if (isMachineOutput()) {
+          printData({ webhookID, added, removed, unchanged: kept });
+        }
+      } catch (error) {
+        exitWithError("Error replacing addresses:", error);
+      }
+    });
+}
+
+export default registerAddressCommands;
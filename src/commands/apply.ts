@@ -0,0 +1,310 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import { heliusApi, Webhook } from "../api";
+import { ensureConfig } from "../config";
+import {
+  loadManifest,
+  loadState,
+  planManifest,
+  PlanChange,
+  saveState,
+  toWebhookData,
+} from "../manifest";
+import {
+  exitWithError,
+  fail,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import { confirmPrompt } from "../prompt";
+import { displaySecret } from "../secrets";
+
+/**
+ * Format a field value for the plan output
+ * @param field Field name
+ * @param current Current value
+ * @param desired Desired value
+ * @returns Formatted change
+ */
+function formatFieldChange(
+  field: string,
+  current: unknown,
+  desired: unknown
+): string {
+  if (field === "accountAddresses") {
+    const before = new Set((current as string[]) || []);
+    const after = new Set((desired as string[]) || []);
+    const added = [...after].filter((a) => !before.has(a)).length;
+    const removed = [...before].filter((a) => !after.has(a)).length;
+    return `${field}: ${chalk.green(`+${added}`)} ${chalk.red(
+      `-${removed}`
+    )} addresses`;
+  }
+
+  const display = (value: unknown): string =>
+    value === undefined || value === ""
+      ? "(none)"
+      : Array.isArray(value)
+      ? value.join(", ")
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+  // Auth headers are shown redacted
+  const show = (value: unknown): string =>
+    field === "authHeader" && typeof value === "string" && value !== ""
+      ? displaySecret(value)
+      : display(value);
+
+  return `${field}: ${chalk.red(show(current))} -> ${chalk.green(
+    show(desired)
+  )}`;
+}
+
+/**
+ * Format planned changes for display
+ * @param changes Planned changes
+ * @returns Formatted string
+ */
+function formatPlan(changes: PlanChange[]): string {
+  const lines: string[] = [];
+
+  for (const change of changes) {
+    switch (change.action) {
+      case "create":
+        lines.push(chalk.green(`+ create ${change.key}`));
+        lines.push(
+          `    ${change.desired.webhookType}, ${change.desired.transactionTypes.length} types, ${change.desired.accountAddresses.length} addresses`
+        );
+        break;
+      case "update":
+        lines.push(
+          chalk.yellow(`~ update ${change.key} (${change.current.webhookID})`)
+        );
+        for (const field of change.fields) {
+          lines.push(
+            `    ${formatFieldChange(
+              field,
+              change.current[field as keyof Webhook],
+              change.desired[field]
+            )}`
+          );
+        }
+        break;
+      case "delete":
+        lines.push(
+          chalk.red(
+            `- delete ${change.current.webhookURL} (${change.current.webhookID})`
+          )
+        );
+        break;
+      case "unchanged":
+        break;
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Summarize planned changes
+ * @param changes Planned changes
+ * @returns Count of creates, updates and deletes
+ */
+function summarizePlan(changes: PlanChange[]): string {
+  const count = (action: PlanChange["action"]) =>
+    changes.filter((c) => c.action === action).length;
+  return `${count("create")} to create, ${count("update")} to update, ${count(
+    "delete"
+  )} to delete, ${count("unchanged")} unchanged`;
+}
+
+/**
+ * Load a manifest and compute the plan against the current webhooks
+ * @param file Manifest path
+ * @param prune Whether to plan deletes
+ * @returns Planned changes, the saved state and unmanaged webhook count
+ */
+async function computePlan(
+  file: string,
+  prune: boolean
+): Promise<{
+  changes: PlanChange[];
+  state: Record<string, string>;
+  unmanaged: number;
+}> {
+  const manifest = loadManifest(file);
+
+  const spinner = ora("Fetching webhooks...").start();
+  const webhooks = await heliusApi.getAllWebhooks();
+  spinner.succeed(`Found ${webhooks.length} webhooks`);
+
+  const state = loadState();
+  const changes = planManifest(manifest, webhooks, state, prune);
+  const managed = changes.filter((c) => c.action !== "create").length;
+
+  return { changes, state, unmanaged: webhooks.length - managed };
+}
+
+/**
+ * Print a computed plan
+ * @param changes Planned changes
+ * @param unmanaged Number of webhooks not in the manifest and not pruned
+ * @param prune Whether deletes were planned
+ */
+function printPlan(
+  changes: PlanChange[],
+  unmanaged: number,
+  prune: boolean
+): void {
+  const plan = formatPlan(changes);
+  if (plan) {
+    info(`\n${plan}\n`);
+  }
+  info(chalk.bold(summarizePlan(changes)));
+  if (!prune && unmanaged > 0) {
+    info(
+      chalk.dim(
+        `${unmanaged} webhooks are not in the manifest (use --prune to delete them)`
+      )
+    );
+  }
+}
+
+/**
+ * Register plan and apply commands
+ * @param program Commander program
+ */
+export function registerApplyCommands(program: Command): void {
+  // Show what apply would change
+  program
+    .command("plan")
+    .description("Show the changes needed to match a webhook manifest")
+    .requiredOption("-f, --file <path>", "Manifest file (YAML or JSON)")
+    .option("--prune", "Include deletes for webhooks missing from the manifest")
+    .action(async (options) => {
+      try {
+        // Ensure configuration is set
+        await ensureConfig();
+
+        const prune = Boolean(options.prune);
+        const { changes, unmanaged } = await computePlan(options.file, prune);
+
+        if (isMachineOutput()) {
+          printData(
+            changes.map((change) => ({
+              action: change.action,
+              key: "key" in change ? change.key : undefined,
+              webhookID:
+                "current" in change ? change.current.webhookID : undefined,
+              fields: change.action === "update" ? change.fields : undefined,
+            }))
+          );
+          return;
+        }
+
+        printPlan(changes, unmanaged, prune);
+      } catch (error) {
+        exitWithError("Error planning manifest:", error);
+      }
+    });
+
+  // Apply a manifest
+  program
+    .command("apply")
+    .description("Create, update and delete webhooks to match a manifest")
+    .requiredOption("-f, --file <path>", "Manifest file (YAML or JSON)")
+    .option("--prune", "Delete webhooks missing from the manifest")
+    .option("--force", "Skip confirmation prompt")
+    .action(async (options) => {
+      try {
+        // Ensure configuration is set
+        await ensureConfig();
+
+        const prune = Boolean(options.prune);
+        const { changes, state, unmanaged } = await computePlan(
+          options.file,
+          prune
+        );
+        printPlan(changes, unmanaged, prune);
+
+        const pending = changes.filter((c) => c.action !== "unchanged");
+
+        // Record matches even when nothing needs to change
+        for (const change of changes) {
+          if (change.action === "unchanged" || change.action === "update") {
+            state[change.key] = change.current.webhookID;
+          }
+        }
+
+        if (pending.length === 0) {
+          saveState(state);
+          info(chalk.green("Webhooks already match the manifest"));
+          return;
+        }
+
+        // Confirm changes unless force option is used
+        if (!options.force) {
+          const confirm = await confirmPrompt("Apply these changes?", false);
+
+          if (!confirm) {
+            info(chalk.yellow("Apply cancelled"));
+            return;
+          }
+        }
+
+        let failed = 0;
+
+        for (const change of pending) {
+          const label =
+            change.action === "delete" ? change.current.webhookID : change.key;
+          const spinner = ora(`${change.action} ${label}...`).start();
+
+          try {
+            if (change.action === "create") {
+              const webhook = await heliusApi.createWebhook(
+                toWebhookData(change.desired)
+              );
+              state[change.key] = webhook.webhookID;
+              spinner.succeed(`Created ${label} (${webhook.webhookID})`);
+            } else if (change.action === "update") {
+              await heliusApi.updateWebhook(
+                change.current.webhookID,
+                toWebhookData(change.desired)
+              );
+              spinner.succeed(`Updated ${label}`);
+            } else if (change.action === "delete") {
+              await heliusApi.deleteWebhook(change.current.webhookID);
+              for (const key of Object.keys(state)) {
+                if (state[key] === change.current.webhookID) {
+                  delete state[key];
+                }
+              }
+              spinner.succeed(`Deleted ${label}`);
+            }
+          } catch (error) {
+            failed++;
+            spinner.fail(
+              `Failed to ${change.action} ${label}: ${
+                error instanceof Error ? error.message : error
+              }`
+            );
+          }
+        }
+
+        saveState(state);
+
+        if (failed > 0) {
+          fail(`${failed} changes failed`);
+        }
+
+        info(chalk.green("Manifest applied successfully"));
+      } catch (error) {
+        exitWithError("Error applying manifest:", error);
+      }
+    });
+}
+
+export default registerApplyCommands;
@@ -0,0 +1,162 @@
+import { Command, Option } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import { heliusApi, Network } from "../api";
+import { validateAddresses } from "../addresses";
+import {
+  AssetFilters,
+  AssetSource,
+  BURNT_FILTERS,
+  COMPRESSED_FILTERS,
+  describeAssetSource,
+} from "../asset-sources";
+import { fail, info } from "../output";
+import { confirmPrompt } from "../prompt";
+
+/**
+ * Parse the --limit option
+ * @param value Option value
+ * @returns Limit, or undefined if the option was not given
+ */
+export function parseLimit(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const limit = parseInt(value, 10);
+  if (isNaN(limit) || limit < 1) {
+    fail(`Invalid limit: ${value}`);
+  }
+  return limit;
+}
+
+/**
+ * Add the on-chain source and filter options to a command
+ * @param command Commander command
+ */
+export function addAssetSourceOptions(command: Command): void {
+  command
+    .option(
+      "--collection <addresses>",
+      "Track all NFTs in these collections (comma-separated list)"
+    )
+    .option(
+      "--creator <addresses>",
+      "Track all assets by these verified creators (comma-separated list)"
+    )
+    .option(
+      "--authority <addresses>",
+      "Track all assets with these update authorities (comma-separated list)"
+    )
+    .option(
+      "--owner <addresses>",
+      "Track all assets held by these wallets (comma-separated list)"
+    )
+    .addOption(
+      new Option(
+        "--compressed <filter>",
+        "Include, exclude or only take compressed NFTs (default include)"
+      ).choices(COMPRESSED_FILTERS)
+    )
+    .addOption(
+      new Option(
+        "--burnt <filter>",
+        "Include or exclude burnt assets (default include)"
+      ).choices(BURNT_FILTERS)
+    )
+    .option(
+      "--limit <n>",
+      "Maximum number of addresses to take from each on-chain source"
+    );
+}
+
+/**
+ * Resolve the asset addresses of on-chain sources, reporting progress in a spinner
+ * Sources that fail are reported and skipped, unless failFast is set
+ * @param sources Collections, creators, authorities and owners to look up
+ * @param options Network, per-source limit, filters, and how to handle invalid addresses and failed sources
+ * @returns Valid, de-duplicated addresses from all sources
+ */
+export async function resolveAssetSources(
+  sources: AssetSource[],
+  options: {
+    network: Network;
+    limit?: number;
+    filters: AssetFilters;
+    skipInvalid?: boolean;
+    failFast?: boolean;
+  }
+): Promise<string[]> {
+  const { network, limit, filters } = options;
+  const addresses: string[] = [];
+
+  for (const source of sources) {
+    const description = describeAssetSource(source);
+    const message = `Fetching assets for ${description} on ${network}`;
+    const spinner = ora(`${message}...`).start();
+
+    try {
+      const assetAddresses = await heliusApi.getAssetAddresses(source, {
+        network,
+        limit,
+        filters,
+        onProgress: (count) => {
+          spinner.text = `${message}... ${count} so far`;
+        },
+      });
+      spinner.succeed(
+        `Found ${assetAddresses.length} assets for ${description}${
+          limit !== undefined && assetAddresses.length >= limit
+            ? ` (limited to ${limit})`
+            : ""
+        }`
+      );
+      addresses.push(...assetAddresses);
+    } catch (error) {
+      spinner.fail(
+        `Failed to fetch assets for ${description}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      if (options.failFast) {
+        throw error;
+      }
+      info(chalk.yellow(`Continuing without ${description}...`));
+    }
+  }
+
+  return validateAddresses(addresses, {
+    source: "on-chain sources",
+    skipInvalid: options.skipInvalid,
+  });
+}
+
+/**
+ * Ask whether to add the addresses resolved from on-chain sources
+ * @param addresses Resolved addresses
+ * @returns True if the addresses should be added
+ */
+export async function confirmAssetAddresses(
+  addresses: string[]
+): Promise<boolean> {
+  if (addresses.length === 0) {
+    info(
+      chalk.yellow(
+        "No assets found for the given sources. Please check the addresses."
+      )
+    );
+    return false;
+  }
+
+  // Ask for confirmation before adding all asset addresses
+  const confirm = await confirmPrompt(
+    `Do you want to add ${addresses.length} asset addresses from on-chain sources to your webhook?`,
+    true
+  );
+
+  if (confirm) {
+    info(
+      chalk.green(`Added ${addresses.length} asset addresses to the webhook.`)
+    );
+  } else {
+    info(chalk.yellow("Asset addresses not added."));
+  }
+  return confirm;
+}
@@ -0,0 +1,194 @@
+import * as fs from "fs";
+import { Command } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import { heliusApi, Webhook } from "../api";
+import { ensureConfig, getConfig } from "../config";
+import { PRIVATE_FILE_MODE } from "../constants";
+import { changedFields } from "../manifest";
+import { exitWithError, info, isMachineOutput, printData } from "../output";
+
+// Current export file format version
+const EXPORT_VERSION = 1;
+
+// Export file contents
+interface WebhookExport {
+  version: number;
+  exportedAt: string;
+  baseUrl: string;
+  webhooks: Webhook[];
+}
+
+/**
+ * Load and validate an export file
+ * @param file Path to the export file
+ * @returns Parsed export
+ */
+function loadExport(file: string): WebhookExport {
+  const data = JSON.parse(fs.readFileSync(file, "utf8"));
+
+  if (!data || !Array.isArray(data.webhooks)) {
+    throw new Error("Export file must contain a `webhooks` list");
+  }
+
+  if (data.version !== EXPORT_VERSION) {
+    throw new Error(
+      `Unsupported export version ${data.version} (expected ${EXPORT_VERSION})`
+    );
+  }
+
+  return data as WebhookExport;
+}
+
+/**
+ * Register export and import commands
+ * @param webhooks Commander `webhooks` command
+ */
+export function registerBackupCommands(webhooks: Command): void {
+  // Export all webhooks
+  webhooks
+    .command("export")
+    .description("Export all webhooks to a JSON file")
+    .option(
+      "--file <path>",
+      "Output file (defaults to helius-webhooks-<timestamp>.json)"
+    )
+    .action(async (options) => {
+      try {
+        // Ensure configuration is set
+        await ensureConfig();
+
+        const spinner = ora("Fetching webhooks...").start();
+
+        const webhooks = await heliusApi.getAllWebhooks();
+
+        spinner.succeed(`Found ${webhooks.length} webhooks`);
+
+        const exportedAt = new Date().toISOString();
+        const data: WebhookExport = {
+          version: EXPORT_VERSION,
+          exportedAt,
+          baseUrl: getConfig().baseUrl,
+          webhooks,
+        };
+
+        const file =
+          options.file ||
+          `helius-webhooks-${exportedAt.replace(/[:.]/g, "-")}.json`;
+
+        // Exports hold the auth headers in full, so keep them private
+        fs.writeFileSync(file, JSON.stringify(data, null, 2), {
+          mode: PRIVATE_FILE_MODE,
+        });
+        fs.chmodSync(file, PRIVATE_FILE_MODE);
+
+        info(chalk.green(`Exported ${webhooks.length} webhooks to ${file}`));
+      } catch (error) {
+        exitWithError("Error exporting webhooks:", error);
+      }
+    });
+
+  // Import webhooks from an export file
+  webhooks
+    .command("import <file>")
+    .description("Recreate webhooks from an export file")
+    .option("--dry-run", "Show what would be created without creating it")
+    .action(async (file: string, options) => {
+      try {
+        // Ensure configuration is set
+        await ensureConfig();
+
+        const data = loadExport(file);
+
+        info(
+          chalk.bold(
+            `Export from ${data.baseUrl} at ${data.exportedAt} (${data.webhooks.length} webhooks)`
+          )
+        );
+
+        const spinner = ora("Fetching existing webhooks...").start();
+
+        const existing = await heliusApi.getAllWebhooks();
+
+        spinner.succeed(`Found ${existing.length} existing webhooks`);
+
+        const mapping: [string, string][] = [];
+        let skipped = 0;
+        let failed = 0;
+
+        for (const webhook of data.webhooks) {
+          const { webhookID, ...webhookData } = webhook;
+
+          // Skip webhooks that already exist with the same URL and filters
+          const match = existing.find(
+            (w) => changedFields(w, webhookData).length === 0
+          );
+
+          if (match) {
+            skipped++;
+            mapping.push([webhookID, match.webhookID]);
+            info(
+              chalk.yellow(
+                `Skipping ${webhookID}: already exists as ${match.webhookID}`
+              )
+            );
+            continue;
+          }
+
+          if (options.dryRun) {
+            mapping.push([webhookID, "(new)"]);
+            info(
+              chalk.green(`Would create ${webhookID} (${webhook.webhookURL})`)
+            );
+            continue;
+          }
+
+          const createSpinner = ora(`Creating ${webhookID}...`).start();
+
+          try {
+            const created = await heliusApi.createWebhook(webhookData);
+            existing.push(created);
+            mapping.push([webhookID, created.webhookID]);
+            createSpinner.succeed(
+              `Created ${webhookID} as ${created.webhookID}`
+            );
+          } catch (error) {
+            failed++;
+            createSpinner.fail(
+              `Failed to create ${webhookID}: ${
+                error instanceof Error ? error.message : error
+              }`
+            );
+          }
+        }
+
+        if (mapping.length > 0) {
+          info(chalk.bold("\nOld ID -> New ID:"));
+          mapping.forEach(([oldID, newID]) => {
+            info(`${oldID} -> ${newID}`);
+          });
+        }
+
+        const created = mapping.length - skipped;
+        info(
+          chalk.bold(
+            `\n${created} ${
+              options.dryRun ? "to create" : "created"
+            }, ${skipped} skipped, ${failed} failed`
+          )
+        );
+
+        if (isMachineOutput()) {
+          printData(mapping.map(([oldID, newID]) => ({ oldID, newID })));
+        }
+
+        if (failed > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        exitWithError("Error importing webhooks:", error);
+      }
+    });
+}
+
+export default registerBackupCommands;
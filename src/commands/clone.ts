@@ -0,0 +1,177 @@
+import { Command, Option } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import {
+  heliusApi,
+  HeliusApiClient,
+  Network,
+  NETWORKS,
+  Webhook,
+  webhookNetwork,
+  webhookTypeForNetwork,
+} from "../api";
+import { describeAssetSource } from "../asset-sources";
+import { ensureConfig, getProfileConfig, getProfileName } from "../config";
+import { WEBHOOK_TYPES } from "../constants";
+import {
+  exitWithError,
+  fail,
+  failOnRuleViolations,
+  info,
+  printWebhook,
+} from "../output";
+import { findRuleViolations } from "../webhook-rules";
+import { loadWebhookSources, recordWebhookSources } from "../webhook-sources";
+import { resolveWebhookID } from "./labels";
+
+/**
+ * Get the client for the account a webhook is cloned to
+ * @param options Command options
+ * @returns Client for the target account, and a description of it
+ */
+function targetClient(options: { toProfile?: string; toApiKey?: string }): {
+  client: HeliusApiClient;
+  label: string;
+} {
+  if (options.toProfile) {
+    const { apiKey, baseUrl, rpcUrl, devnetRpcUrl } = getProfileConfig(
+      options.toProfile
+    );
+    return {
+      client: heliusApi.withOptions({
+        apiKey,
+        baseUrl,
+        rpcUrl,
+        devnetRpcUrl,
+      }),
+      label: `profile ${options.toProfile}`,
+    };
+  }
+  if (options.toApiKey) {
+    return {
+      client: heliusApi.withOptions({ apiKey: options.toApiKey }),
+      label: "the account of the given API key",
+    };
+  }
+  return { client: heliusApi, label: `profile ${getProfileName()}` };
+}
+
+/**
+ * Register the clone command
+ * @param webhooks Commander `webhooks` command
+ */
+export function registerCloneCommand(webhooks: Command): void {
+  webhooks
+    .command("clone <webhookID>")
+    .description(
+      "Copy a webhook, optionally to another network, profile or API key"
+    )
+    .option("-u, --url <url>", "Webhook URL of the copy")
+    .option("-t, --type <type>", "Webhook type of the copy")
+    .option("-a, --auth-header <header>", "Authorization header of the copy")
+    .addOption(
+      new Option(
+        "--to-network <network>",
+        "Map the webhook type to this network (e.g. enhancedDevnet to enhanced)"
+      ).choices(NETWORKS)
+    )
+    .option("--to-profile <name>", "Create the copy with this profile")
+    .option("--to-api-key <key>", "Create the copy with this API key")
+    .action(async (webhookID: string, options) => {
+      try {
+        if (options.type && options.toNetwork) {
+          fail("Specify either --type or --to-network, not both");
+        }
+        if (options.toProfile && options.toApiKey) {
+          fail("Specify either --to-profile or --to-api-key, not both");
+        }
+        if (options.type && !WEBHOOK_TYPES.includes(options.type)) {
+          fail(
+            `Invalid webhook type: ${options.type}`,
+            `Valid types are: ${WEBHOOK_TYPES.join(", ")}`
+          );
+        }
+
+        // Ensure configuration is set
+        await ensureConfig();
+
+        webhookID = await resolveWebhookID(webhookID);
+
+        const { client, label } = targetClient(options);
+
+        const fetchSpinner = ora(`Fetching webhook ${webhookID}...`).start();
+        const source = await heliusApi.getWebhook(webhookID);
+        fetchSpinner.succeed(`Found webhook ${webhookID}`);
+
+        const webhookType: string =
+          options.type ||
+          (options.toNetwork
+            ? webhookTypeForNetwork(
+                source.webhookType,
+                options.toNetwork as Network
+              )
+            : source.webhookType);
+        // Copy only the webhook settings, not server-assigned fields
+        const copy: Omit<Webhook, "webhookID"> = {
+          webhookURL: options.url ?? source.webhookURL,
+          webhookType,
+          transactionTypes: source.transactionTypes,
+          accountAddresses: source.accountAddresses,
+          authHeader: options.authHeader ?? source.authHeader,
+          txnStatus: source.txnStatus,
+          encoding: source.encoding,
+          encoding_config: source.encoding_config,
+        };
+
+        // The copy must pass the same rules as a new webhook
+        failOnRuleViolations(findRuleViolations(copy));
+
+        const fromNetwork = webhookNetwork(source.webhookType);
+        const toNetwork = webhookNetwork(webhookType);
+        const sameAccount = !options.toProfile && !options.toApiKey;
+        const sources = loadWebhookSources()[webhookID];
+
+        // Asset addresses resolved on one network mean nothing on the other
+        if (sources && fromNetwork !== toNetwork) {
+          const described = sources.sources.map(describeAssetSource).join(", ");
+          info(
+            chalk.yellow(
+              `Warning: the addresses of webhook ${webhookID} were resolved on ${fromNetwork} from ${described}. The same sources may hold different assets on ${toNetwork}.`
+            )
+          );
+          info(
+            chalk.dim(
+              "Re-resolve them on the new network with helius webhooks update <webhookID> --collection ..."
+            )
+          );
+        }
+
+        const spinner = ora(`Creating the copy in ${label}...`).start();
+        let webhook: Webhook;
+        try {
+          webhook = await client.createWebhook(copy);
+        } catch (error) {
+          spinner.fail("Failed to create the copy");
+          throw error;
+        }
+        spinner.succeed(
+          `Cloned webhook ${webhookID} to ${webhook.webhookID} (${webhookType})`
+        );
+
+        // The copy keeps tracking the sources when it stays on the same account and network
+        if (sources && sameAccount && fromNetwork === toNetwork) {
+          recordWebhookSources(
+            webhook.webhookID,
+            sources.sources,
+            sources.resolved
+          );
+        }
+
+        printWebhook(webhook);
+      } catch (error) {
+        exitWithError("Error cloning webhook:", error);
+      }
+    });
+}
+
+export default registerCloneCommand;
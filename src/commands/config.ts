@@ -1,7 +1,32 @@
 import { Command } from "commander";
 import chalk from "chalk";
 import inquirer from "inquirer";
-import { getConfig, setConfig, resetConfig } from "../config";
+import {
+  CONFIG_KEYS,
+  isConfigKey,
+  getConfig,
+  setConfig,
+  resetConfig,
+  getProfileName,
+  getActiveProfile,
+  getProfiles,
+  addProfile,
+  useProfile,
+  removeProfile,
+  unlockConfig,
+  isConfigEncrypted,
+  encryptConfig,
+  decryptConfig,
+} from "../config";
+import {
+  exitWithError,
+  fail,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import { confirmPrompt, requireInput } from "../prompt";
+import { displaySecret, isEncrypted, isShowingSecrets } from "../secrets";
 
 /**
  * Register configuration commands
@@ -16,39 +41,77 @@ export function registerConfigCommands(program: Command): void {
   config
     .command("show")
     .description("Show current configuration")
-    .action(() => {
-      const currentConfig = getConfig();
-      console.log(chalk.bold("\nCurrent Configuration:"));
-      console.log(
-        chalk.bold("API Key:"),
-        currentConfig.apiKey || chalk.yellow("Not set")
-      );
-      console.log(chalk.bold("Base URL:"), currentConfig.baseUrl);
-      console.log();
+    .action(async () => {
+      try {
+        // Revealing an encrypted key needs the passphrase
+        if (isShowingSecrets()) {
+          await unlockConfig();
+        }
+
+        const currentConfig = getConfig();
+        const apiKey = isEncrypted(currentConfig.apiKey)
+          ? "(encrypted)"
+          : displaySecret(currentConfig.apiKey);
+
+        if (isMachineOutput()) {
+          printData({
+            profile: getProfileName(),
+            ...currentConfig,
+            apiKey,
+            encrypted: isConfigEncrypted(),
+          });
+          return;
+        }
+
+        info(chalk.bold("\nCurrent Configuration:"));
+        info(chalk.bold("Profile:"), getProfileName());
+        info(chalk.bold("API Key:"), apiKey || chalk.yellow("Not set"));
+        info(chalk.bold("Encrypted:"), isConfigEncrypted() ? "yes" : "no");
+        info(chalk.bold("Base URL:"), currentConfig.baseUrl);
+        info(chalk.bold("RPC URL:"), currentConfig.rpcUrl);
+        info(chalk.bold("Devnet RPC URL:"), currentConfig.devnetRpcUrl);
+        info(chalk.bold("Addresses per Webhook:"), currentConfig.addressLimit);
+        info();
+      } catch (error) {
+        exitWithError("Error showing configuration:", error);
+      }
     });
 
   // Set configuration value
   config
     .command("set <key> <value>")
-    .description("Set configuration value (apiKey, baseUrl)")
-    .action((key: string, value: string) => {
-      if (!["apiKey", "baseUrl"].includes(key)) {
-        console.error(
-          chalk.red(
-            "Invalid configuration key. Valid keys are: apiKey, baseUrl"
-          )
+    .description(`Set configuration value (${CONFIG_KEYS.join(", ")})`)
+    .action(async (key: string, value: string) => {
+      if (!isConfigKey(key)) {
+        fail(
+          `Invalid configuration key. Valid keys are: ${CONFIG_KEYS.join(", ")}`
         );
-        process.exit(1);
       }
 
-      setConfig(key as any, value);
-      console.log(
-        chalk.green(
-          `Configuration updated: ${key} = ${
-            key === "apiKey" ? value.substring(0, 5) + "..." : value
-          }`
-        )
-      );
+      if (
+        key === "addressLimit" &&
+        !(parseInt(value, 10) > 0 && /^\d+$/.test(value))
+      ) {
+        fail(`Invalid addressLimit: ${value} (expected a positive number)`);
+      }
+
+      try {
+        // A new key is encrypted with the passphrase of an encrypted config
+        if (key === "apiKey") {
+          await unlockConfig();
+        }
+
+        setConfig(key, value);
+        info(
+          chalk.green(
+            `Configuration updated: ${key} = ${
+              key === "apiKey" ? displaySecret(value) : value
+            }`
+          )
+        );
+      } catch (error) {
+        exitWithError("Error setting configuration:", error);
+      }
     });
 
   // Reset configuration
@@ -56,21 +119,176 @@ export function registerConfigCommands(program: Command): void {
     .command("reset")
     .description("Reset configuration to defaults")
     .action(async () => {
-      const { confirm } = await inquirer.prompt([
-        {
-          type: "confirm",
-          name: "confirm",
-          message:
-            "Are you sure you want to reset all configuration to defaults?",
-          default: false,
-        },
-      ]);
-
-      if (confirm) {
-        resetConfig();
-        console.log(chalk.green("Configuration reset to defaults"));
-      } else {
-        console.log(chalk.yellow("Reset cancelled"));
+      try {
+        const confirm = await confirmPrompt(
+          `Are you sure you want to reset the configuration of profile ${getProfileName()} to defaults?`,
+          false
+        );
+
+        if (confirm) {
+          await unlockConfig();
+          resetConfig();
+          info(
+            chalk.green(
+              `Configuration of profile ${getProfileName()} reset to defaults`
+            )
+          );
+        } else {
+          info(chalk.yellow("Reset cancelled"));
+        }
+      } catch (error) {
+        exitWithError("Error resetting configuration:", error);
+      }
+    });
+
+  // Encrypt the stored API keys
+  config
+    .command("encrypt")
+    .description(
+      "Encrypt the stored API keys with a passphrase (prompted, or HELIUS_CONFIG_PASSPHRASE)"
+    )
+    .action(async () => {
+      try {
+        await encryptConfig();
+        info(chalk.green("Stored API keys encrypted"));
+        info(
+          chalk.dim(
+            "Commands will ask for the passphrase, or read it from HELIUS_CONFIG_PASSPHRASE"
+          )
+        );
+      } catch (error) {
+        exitWithError("Error encrypting configuration:", error);
+      }
+    });
+
+  // Decrypt the stored API keys
+  config
+    .command("decrypt")
+    .description("Store the API keys in plain text again")
+    .action(async () => {
+      try {
+        await decryptConfig();
+        info(chalk.green("Stored API keys decrypted"));
+      } catch (error) {
+        exitWithError("Error decrypting configuration:", error);
+      }
+    });
+
+  const profiles = config
+    .command("profiles")
+    .description("Manage named configuration profiles");
+
+  // List profiles
+  profiles
+    .command("list")
+    .description("List configuration profiles")
+    .action(() => {
+      const all = getProfiles();
+      const active = getActiveProfile();
+      const names = Object.keys(all);
+
+      if (isMachineOutput()) {
+        printData(
+          names.map((name) => ({
+            name,
+            active: name === active,
+            baseUrl: all[name].baseUrl,
+          }))
+        );
+        return;
+      }
+
+      if (names.length === 0) {
+        info(chalk.yellow("No profiles configured. Run helius setup."));
+        return;
+      }
+
+      info(chalk.bold("\nProfiles:"));
+      names.forEach((name) => {
+        const marker = name === active ? chalk.green("*") : " ";
+        info(`${marker} ${chalk.bold(name)} ${all[name].baseUrl}`);
+      });
+      info();
+    });
+
+  // Add a profile
+  profiles
+    .command("add <name>")
+    .description("Add a configuration profile")
+    .option("--api-key <key>", "Helius API key for the profile")
+    .option("--base-url <url>", "Helius API base URL for the profile")
+    .option("--rpc-url <url>", "Helius mainnet RPC URL for the profile")
+    .option("--devnet-rpc-url <url>", "Helius devnet RPC URL for the profile")
+    .action(async (name: string, options) => {
+      try {
+        let apiKey: string | undefined = options.apiKey;
+
+        if (!apiKey) {
+          requireInput("apiKey", "Pass --api-key");
+          const answers = await inquirer.prompt([
+            {
+              type: "input",
+              name: "apiKey",
+              message: `Enter the Helius API key for profile ${name}:`,
+              validate: (input: string) =>
+                input.trim() !== "" ? true : "API key cannot be empty",
+            },
+          ]);
+          apiKey = answers.apiKey as string;
+        }
+
+        await unlockConfig();
+        addProfile(name, {
+          apiKey,
+          ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+          ...(options.rpcUrl ? { rpcUrl: options.rpcUrl } : {}),
+          ...(options.devnetRpcUrl
+            ? { devnetRpcUrl: options.devnetRpcUrl }
+            : {}),
+        });
+        info(chalk.green(`Profile ${name} added`));
+      } catch (error) {
+        exitWithError("Error adding profile:", error);
+      }
+    });
+
+  // Switch the active profile
+  profiles
+    .command("use <name>")
+    .description("Make a profile the active profile")
+    .action((name: string) => {
+      try {
+        useProfile(name);
+        info(chalk.green(`Now using profile ${name}`));
+      } catch (error) {
+        exitWithError("Error switching profile:", error);
+      }
+    });
+
+  // Remove a profile
+  profiles
+    .command("remove <name>")
+    .description("Remove a configuration profile")
+    .option("-f, --force", "Skip confirmation prompt")
+    .action(async (name: string, options) => {
+      try {
+        // Confirm removal unless force option is used
+        if (!options.force) {
+          const confirm = await confirmPrompt(
+            `Are you sure you want to remove profile ${name}?`,
+            false
+          );
+
+          if (!confirm) {
+            info(chalk.yellow("Removal cancelled"));
+            return;
+          }
+        }
+
+        removeProfile(name);
+        info(chalk.green(`Profile ${name} removed`));
+      } catch (error) {
+        exitWithError("Error removing profile:", error);
       }
     });
 }
@@ -0,0 +1,89 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import { heliusApi } from "../api";
+import { isValidAddress } from "../addresses";
+import { describeAssetSource } from "../asset-sources";
+import { ensureConfig } from "../config";
+import {
+  exitWithError,
+  fail,
+  formatTable,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import { findWebhookGroup } from "../webhook-groups";
+import { groupSourcesKey, loadWebhookSources } from "../webhook-sources";
+
+/**
+ * Register the find-address command
+ * @param webhooks Commander `webhooks` command
+ */
+export function registerFindAddressCommand(webhooks: Command): void {
+  webhooks
+    .command("find-address <address>")
+    .description("List the webhooks watching an account address")
+    .action(async (address: string) => {
+      try {
+        if (!isValidAddress(address)) {
+          fail(`Invalid address: ${address}`);
+        }
+
+        // Ensure configuration is set
+        await ensureConfig();
+
+        const spinner = ora("Fetching webhooks...").start();
+        const matches = (await heliusApi.getAllWebhooks()).filter((webhook) =>
+          webhook.accountAddresses.includes(address)
+        );
+        spinner.succeed(`Found ${matches.length} webhooks watching ${address}`);
+
+        const sources = loadWebhookSources();
+        const rows = matches.map((webhook) => {
+          const group = findWebhookGroup(webhook.webhookID);
+          // The recorded sources that resolved to the address, if it was not added by hand
+          const tracked = [
+            sources[webhook.webhookID],
+            group ? sources[groupSourcesKey(group)] : undefined,
+          ].filter((entry) => entry && entry.resolved.includes(address));
+          return {
+            webhookID: webhook.webhookID,
+            webhookType: webhook.webhookType,
+            webhookURL: webhook.webhookURL,
+            group,
+            sources: tracked.flatMap((entry) =>
+              entry!.sources.map(describeAssetSource)
+            ),
+          };
+        });
+
+        if (isMachineOutput()) {
+          printData(rows);
+          return;
+        }
+
+        if (rows.length === 0) {
+          info(chalk.yellow("No webhooks watch this address."));
+          return;
+        }
+
+        info(
+          formatTable(
+            ["ID", "TYPE", "URL", "GROUP", "SOURCES"],
+            rows.map((row) => [
+              row.webhookID,
+              row.webhookType,
+              row.webhookURL,
+              row.group || "-",
+              row.sources.length > 0 ? row.sources.join(", ") : "-",
+            ])
+          )
+        );
+      } catch (error) {
+        exitWithError("Error finding webhooks:", error);
+      }
+    });
+}
+
+export default registerFindAddressCommand;
@@ -0,0 +1,271 @@
+import * as crypto from "crypto";
+import { Command } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import { heliusApi, Webhook } from "../api";
+import { ensureConfig, getAddressLimit } from "../config";
+import {
+  exitWithError,
+  formatTable,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import {
+  getWebhookGroup,
+  loadWebhookGroups,
+  recordWebhookGroup,
+  redistributeAddresses,
+  shardAddresses,
+} from "../webhook-groups";
+
+/**
+ * Generate a name for a new webhook group
+ * @returns Group name
+ */
+export function generateGroupName(): string {
+  return `group-${crypto.randomBytes(4).toString("hex")}`;
+}
+
+/**
+ * Fetch the member webhooks of a group, showing a spinner while they load
+ * @param name Group name
+ * @returns Member webhooks in shard order
+ */
+export async function fetchGroupMembers(name: string): Promise<Webhook[]> {
+  const group = getWebhookGroup(name);
+  const spinner = ora(`Fetching webhook group ${name}...`).start();
+  try {
+    const members: Webhook[] = [];
+    for (const webhookID of group.webhookIDs) {
+      members.push(await heliusApi.getWebhook(webhookID));
+    }
+    spinner.succeed(
+      `Found webhook group ${name} (${members.length} webhooks, ${
+        members.flatMap((m) => m.accountAddresses).length
+      } addresses)`
+    );
+    return members;
+  } catch (error) {
+    spinner.fail(`Failed to fetch webhook group ${name}`);
+    throw error;
+  }
+}
+
+/**
+ * Create a webhook group, one webhook per shard of the address list
+ * The group is recorded after each webhook, so a partial failure is tracked
+ * @param name Group name
+ * @param webhookData Webhook data with the full address list
+ * @returns Created webhooks in shard order
+ */
+export async function createWebhookGroup(
+  name: string,
+  webhookData: Omit<Webhook, "webhookID">
+): Promise<Webhook[]> {
+  const limit = getAddressLimit();
+  const shards = shardAddresses(webhookData.accountAddresses, limit);
+  const created: Webhook[] = [];
+
+  info(
+    chalk.bold(
+      `Splitting ${webhookData.accountAddresses.length} addresses across ${shards.length} webhooks (limit ${limit} per webhook) in group ${name}`
+    )
+  );
+
+  for (const [index, accountAddresses] of shards.entries()) {
+    const spinner = ora(
+      `Creating webhook ${index + 1}/${shards.length}...`
+    ).start();
+    try {
+      const webhook = await heliusApi.createWebhook({
+        ...webhookData,
+        accountAddresses,
+      });
+      created.push(webhook);
+      recordWebhookGroup(
+        name,
+        created.map((w) => w.webhookID)
+      );
+      spinner.succeed(
+        `Created webhook ${webhook.webhookID} (${accountAddresses.length} addresses)`
+      );
+    } catch (error) {
+      spinner.fail(`Failed to create webhook ${index + 1}/${shards.length}`);
+      throw error;
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Update a group so that it monitors exactly the given addresses
+ * Addresses stay on the webhook they are on where possible. Webhooks are
+ * created when the group outgrows its members, and members left without
+ * addresses are deleted (the first member is always kept).
+ * @param name Group name
+ * @param members Current member webhooks in shard order
+ * @param addresses Addresses the whole group should monitor
+ * @param changes Other fields to change on every member
+ * @returns Member webhooks after the update
+ */
+export async function applyGroupAddresses(
+  name: string,
+  members: Webhook[],
+  addresses: string[],
+  changes: Partial<Omit<Webhook, "webhookID">> = {}
+): Promise<Webhook[]> {
+  const plan = redistributeAddresses(
+    members.map((m) => m.accountAddresses),
+    addresses,
+    getAddressLimit()
+  );
+  const result: Webhook[] = [];
+
+  for (const [index, member] of members.entries()) {
+    const { webhookID, ...data } = member;
+    const accountAddresses = plan.shards[index];
+
+    if (accountAddresses.length === 0 && index > 0) {
+      const spinner = ora(`Deleting empty webhook ${webhookID}...`).start();
+      try {
+        await heliusApi.deleteWebhook(webhookID);
+      } catch (error) {
+        spinner.fail(`Failed to delete empty webhook ${webhookID}`);
+        throw error;
+      }
+      spinner.succeed(`Deleted empty webhook ${webhookID}`);
+
+      // Record the deletion now, so a later failure leaves no deleted member behind
+      recordWebhookGroup(name, [
+        ...result.map((w) => w.webhookID),
+        ...members.slice(index + 1).map((m) => m.webhookID),
+      ]);
+      continue;
+    }
+
+    const updated = { ...data, ...changes, accountAddresses };
+    const unchanged =
+      Object.keys(changes).length === 0 &&
+      accountAddresses.length === data.accountAddresses.length &&
+      accountAddresses.every((a, i) => a === data.accountAddresses[i]);
+
+    if (unchanged) {
+      result.push(member);
+      continue;
+    }
+
+    const spinner = ora(`Updating webhook ${webhookID}...`).start();
+    try {
+      result.push(await heliusApi.updateWebhook(webhookID, updated));
+      spinner.succeed(
+        `Updated webhook ${webhookID} (${accountAddresses.length} addresses)`
+      );
+    } catch (error) {
+      spinner.fail(`Failed to update webhook ${webhookID}`);
+      throw error;
+    }
+  }
+
+  // Create new members for addresses that do not fit
+  const { webhookID: _, ...template } = { ...members[0], ...changes };
+  for (const accountAddresses of plan.extra) {
+    const spinner = ora("Creating webhook for the overflow...").start();
+    try {
+      const webhook = await heliusApi.createWebhook({
+        ...template,
+        accountAddresses,
+      });
+      result.push(webhook);
+      spinner.succeed(
+        `Created webhook ${webhook.webhookID} (${accountAddresses.length} addresses)`
+      );
+    } catch (error) {
+      spinner.fail("Failed to create webhook for the overflow");
+      recordWebhookGroup(
+        name,
+        result.map((w) => w.webhookID)
+      );
+      throw error;
+    }
+  }
+
+  recordWebhookGroup(
+    name,
+    result.map((w) => w.webhookID)
+  );
+  return result;
+}
+
+/**
+ * Register webhook group commands
+ * @param webhooks Commander `webhooks` command
+ */
+export function registerGroupCommands(webhooks: Command): void {
+  const groups = webhooks
+    .command("groups")
+    .description("Manage groups of webhooks that share one address list");
+
+  // List groups with their member counts
+  groups
+    .command("list")
+    .description("List webhook groups")
+    .action(async () => {
+      try {
+        // Ensure configuration is set
+        await ensureConfig();
+
+        const all = loadWebhookGroups();
+        const names = Object.keys(all);
+
+        const spinner = ora("Fetching webhooks...").start();
+        const webhooksByID = new Map(
+          (await heliusApi.getAllWebhooks()).map((w) => [w.webhookID, w])
+        );
+        spinner.succeed(`Found ${names.length} webhook groups`);
+
+        const rows = names.map((name) => {
+          const members = all[name].webhookIDs.map((id) =>
+            webhooksByID.get(id)
+          );
+          const present = members.filter((m): m is Webhook => Boolean(m));
+          return {
+            name,
+            webhookIDs: all[name].webhookIDs,
+            missing: members.length - present.length,
+            addresses: present.flatMap((m) => m.accountAddresses).length,
+            webhookURL: present[0]?.webhookURL,
+          };
+        });
+
+        if (isMachineOutput()) {
+          printData(rows);
+          return;
+        }
+
+        if (rows.length === 0) {
+          info(chalk.yellow("No webhook groups found."));
+          return;
+        }
+
+        info(
+          formatTable(
+            ["NAME", "WEBHOOKS", "ADDRESSES", "URL"],
+            rows.map((row) => [
+              row.name,
+              `${row.webhookIDs.length}${
+                row.missing > 0 ? ` (${row.missing} missing)` : ""
+              }`,
+              String(row.addresses),
+              row.webhookURL || "-",
+            ])
+          )
+        );
+      } catch (error) {
+        exitWithError("Error listing webhook groups:", error);
+      }
+    });
+}
+
+export default registerGroupCommands;
@@ -0,0 +1,227 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import { heliusApi, Webhook } from "../api";
+import { ensureConfig } from "../config";
+import {
+  exitWithError,
+  fail,
+  formatTable,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import {
+  forgetWebhookLabel,
+  isValidLabelName,
+  isWebhookID,
+  loadWebhookLabels,
+  recordWebhookLabel,
+} from "../webhook-labels";
+
+/**
+ * Resolve a label, a full webhook ID or a unique ID prefix to a webhook
+ * Labels take precedence over ID prefixes. Full IDs are returned unchecked;
+ * labels and prefixes are checked against the account's webhooks.
+ * @param ref Label, webhook ID or ID prefix
+ * @returns Webhook ID, with the webhook when it was looked up in the list
+ */
+export async function resolveWebhook(
+  ref: string
+): Promise<{ webhookID: string; webhook?: Webhook }> {
+  const label = loadWebhookLabels()[ref];
+  if (!label && isWebhookID(ref)) {
+    return { webhookID: ref };
+  }
+
+  const webhooks = await heliusApi.getAllWebhooks();
+
+  if (label) {
+    const webhook = webhooks.find((w) => w.webhookID === label.webhookID);
+    if (!webhook) {
+      fail(
+        `Label ${ref} points at webhook ${label.webhookID}, which no longer exists`,
+        `Remove it with helius webhooks unlabel ${ref}`
+      );
+    }
+    return { webhookID: label.webhookID, webhook };
+  }
+
+  const matches = webhooks.filter((w) =>
+    w.webhookID.toLowerCase().startsWith(ref.toLowerCase())
+  );
+  if (matches.length === 0) {
+    fail(
+      `No webhook or label matches ${ref}`,
+      "Check the ID with `helius webhooks list`, or the labels with `helius webhooks labels`"
+    );
+  }
+  if (matches.length > 1) {
+    fail(
+      `${ref} matches ${matches.length} webhooks: ${matches
+        .map((w) => w.webhookID)
+        .join(", ")}`,
+      "Use a longer prefix or the full webhook ID"
+    );
+  }
+  return { webhookID: matches[0].webhookID, webhook: matches[0] };
+}
+
+/**
+ * Resolve a label, a full webhook ID or a unique ID prefix to a webhook ID
+ * @param ref Label, webhook ID or ID prefix
+ * @returns Webhook ID
+ */
+export async function resolveWebhookID(ref: string): Promise<string> {
+  return (await resolveWebhook(ref)).webhookID;
+}
+
+/**
+ * Register webhook label commands
+ * @param webhooks Commander `webhooks` command
+ */
+export function registerLabelCommands(webhooks: Command): void {
+  // Give a webhook a local name
+  webhooks
+    .command("label <webhookID> <name>")
+    .description(
+      "Give a webhook a local name that can be used wherever an ID is accepted"
+    )
+    .option("--note <note>", "Note to keep with the label")
+    .action(async (webhookID: string, name: string, options) => {
+      try {
+        if (!isValidLabelName(name)) {
+          fail(
+            `Invalid label name: ${name}`,
+            "Labels start with a letter and contain only letters, digits, dots, dashes and underscores"
+          );
+        }
+
+        // Ensure configuration is set
+        await ensureConfig();
+
+        const resolved = await resolveWebhook(webhookID);
+        webhookID = resolved.webhookID;
+
+        // Full IDs are not looked up while resolving, so fetch those
+        let webhook = resolved.webhook;
+        if (!webhook) {
+          const spinner = ora(`Fetching webhook ${webhookID}...`).start();
+          webhook = await heliusApi.getWebhook(webhookID);
+          spinner.succeed(`Found webhook ${webhookID}`);
+        }
+
+        const previous = loadWebhookLabels()[name];
+        recordWebhookLabel(name, webhookID, options.note);
+
+        if (isMachineOutput()) {
+          printData({ name, webhookID, note: options.note });
+          return;
+        }
+
+        if (previous && previous.webhookID !== webhookID) {
+          info(
+            chalk.yellow(
+              `Moved label ${name} from webhook ${previous.webhookID}`
+            )
+          );
+        }
+        info(
+          chalk.green(
+            `Labelled webhook ${webhookID} (${webhook.webhookURL}) as ${name}`
+          )
+        );
+      } catch (error) {
+        exitWithError("Error labelling webhook:", error);
+      }
+    });
+
+  // Remove a label
+  webhooks
+    .command("unlabel <name>")
+    .description("Remove a webhook label")
+    .action((name: string) => {
+      try {
+        if (!forgetWebhookLabel(name)) {
+          fail(
+            `Label ${name} does not exist`,
+            "List the labels with `helius webhooks labels`"
+          );
+        }
+
+        if (isMachineOutput()) {
+          printData({ name, removed: true });
+        } else {
+          info(chalk.green(`Removed label ${name}`));
+        }
+      } catch (error) {
+        exitWithError("Error removing label:", error);
+      }
+    });
+
+  // List labels, flagging those whose webhook is gone
+  webhooks
+    .command("labels")
+    .description("List webhook labels")
+    .action(async () => {
+      try {
+        // Ensure configuration is set
+        await ensureConfig();
+
+        const labels = loadWebhookLabels();
+        const names = Object.keys(labels).sort();
+
+        const spinner = ora("Fetching webhooks...").start();
+        const webhooksByID = new Map(
+          (await heliusApi.getAllWebhooks()).map((w) => [w.webhookID, w])
+        );
+        spinner.succeed(`Found ${names.length} webhook labels`);
+
+        const rows = names.map((name) => ({
+          name,
+          webhookID: labels[name].webhookID,
+          note: labels[name].note,
+          missing: !webhooksByID.has(labels[name].webhookID),
+          webhookURL: webhooksByID.get(labels[name].webhookID)?.webhookURL,
+        }));
+
+        if (isMachineOutput()) {
+          printData(rows);
+          return;
+        }
+
+        if (rows.length === 0) {
+          info(chalk.yellow("No webhook labels found."));
+          return;
+        }
+
+        info(
+          formatTable(
+            ["NAME", "WEBHOOK", "URL", "NOTE"],
+            rows.map((row) => [
+              row.name,
+              row.webhookID,
+              row.missing ? "(missing)" : row.webhookURL!,
+              row.note || "-",
+            ])
+          )
+        );
+
+        const stale = rows.filter((row) => row.missing);
+        if (stale.length > 0) {
+          info(
+            chalk.yellow(
+              `\n${stale.length} labels point at webhooks that no longer exist`
+            )
+          );
+          info(
+            `Remove them with helius webhooks unlabel <name>, or point them at another webhook with helius webhooks label <webhookID> <name>`
+          );
+        }
+      } catch (error) {
+        exitWithError("Error listing webhook labels:", error);
+      }
+    });
+}
+
+export default registerLabelCommands;
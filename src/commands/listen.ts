@@ -0,0 +1,308 @@
+import * as http from "http";
+import { Command, Option } from "commander";
+import chalk from "chalk";
+import { COMPRESSION_OPTIONS, ENCODING_FORMATS } from "../constants";
+import {
+  appendDelivery,
+  decodeDeliveryBody,
+  DeliveryRecord,
+  transactionsOf,
+  transactionSignature,
+  transactionType,
+} from "../deliveries";
+import { exitWithError, fail, info, isMachineOutput } from "../output";
+import { displaySecret } from "../secrets";
+
+// Lamports per SOL, used to display native transfers
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/**
+ * Shorten an address for display
+ * @param address Account address
+ * @returns Shortened address
+ */
+function shorten(address: string | undefined): string {
+  if (!address) return "?";
+  return address.length > 12
+    ? `${address.slice(0, 4)}...${address.slice(-4)}`
+    : address;
+}
+
+/**
+ * Gets a field of a transaction as a list, whatever the delivery sent
+ * @param value Field value
+ * @returns The field's entries, or an empty list if it is not an array
+ */
+function listOf(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Format a single transaction from a webhook payload
+ * Handles both the enhanced and the raw transaction formats
+ * @param entry Transaction from the delivery body, which may be of any shape
+ * @returns Formatted string
+ */
+function formatTransaction(entry: unknown): string {
+  const lines: string[] = [];
+
+  // Raw transactions carry the signature and accounts inside `transaction`
+  const signature = transactionSignature(entry) || "?";
+  const type = transactionType(entry);
+  lines.push(`${chalk.bold(type)} ${chalk.dim(signature)}`);
+
+  if (!entry || typeof entry !== "object") {
+    lines.push(chalk.yellow(`  Not a transaction: ${JSON.stringify(entry)}`));
+    return lines.join("\n");
+  }
+
+  const tx = entry as Record<string, any>;
+  const accounts: unknown[] = tx.accountData
+    ? listOf(tx.accountData).map((a) => a?.account)
+    : listOf(tx.transaction?.message?.accountKeys);
+
+  if (tx.description) {
+    lines.push(`  ${tx.description}`);
+  }
+
+  if (tx.source) {
+    lines.push(`  ${chalk.bold("Source:")} ${tx.source}`);
+  }
+
+  if (accounts.length > 0) {
+    lines.push(
+      `  ${chalk.bold("Accounts:")} ${accounts
+        .map((a) => shorten(typeof a === "string" ? a : (a as any)?.pubkey))
+        .join(", ")}`
+    );
+  }
+
+  for (const transfer of listOf(tx.nativeTransfers)) {
+    lines.push(
+      `  ${chalk.green("SOL")} ${shorten(
+        transfer?.fromUserAccount
+      )} -> ${shorten(transfer?.toUserAccount)}: ${
+        (transfer?.amount ?? 0) / LAMPORTS_PER_SOL
+      }`
+    );
+  }
+
+  for (const transfer of listOf(tx.tokenTransfers)) {
+    lines.push(
+      `  ${chalk.cyan("Token")} ${shorten(
+        transfer?.fromUserAccount
+      )} -> ${shorten(transfer?.toUserAccount)}: ${
+        transfer?.tokenAmount
+      } ${shorten(transfer?.mint)}`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a delivery for display
+ * @param record Delivery record
+ * @param status Status code returned to the sender
+ * @param authorized Whether the Authorization header matched
+ * @returns Formatted string
+ */
+function formatDelivery(
+  record: DeliveryRecord,
+  status: number,
+  authorized: boolean
+): string {
+  const transactions = transactionsOf(record.body);
+
+  const header = `${chalk.dim(record.receivedAt)} ${record.method} ${
+    record.path
+  } -> ${status >= 400 ? chalk.red(status) : chalk.green(status)}${
+    authorized ? "" : chalk.red(" (unauthorized)")
+  } ${chalk.dim(
+    `${transactions.length} transactions${
+      record.packing ? `, ${record.packing}` : ""
+    }`
+  )}`;
+
+  return [header, ...transactions.map(formatTransaction)].join("\n") + "\n";
+}
+
+/**
+ * Parse a comma-separated list of status codes
+ * @param value Option value
+ * @returns Status codes
+ */
+function parseStatusCodes(value: string): number[] {
+  const codes = value.split(",").map((s) => parseInt(s.trim(), 10));
+  if (codes.some((c) => isNaN(c) || c < 100 || c > 599)) {
+    fail(`Invalid status codes: ${value}`, "Use codes between 100 and 599");
+  }
+  return codes;
+}
+
+/**
+ * Register the listen command
+ * @param webhooks Commander `webhooks` command
+ */
+export function registerListenCommand(webhooks: Command): void {
+  webhooks
+    .command("listen")
+    .description("Run a local HTTP server that receives webhook deliveries")
+    .option("-p, --port <port>", "Port to listen on", "3000")
+    .option("--host <host>", "Host to bind to", "127.0.0.1")
+    .option(
+      "-a, --auth-header <header>",
+      "Expected Authorization header; other deliveries get a 401"
+    )
+    .option("--record <file>", "Append every delivery to a JSONL file")
+    .option(
+      "--status <codes>",
+      "Status codes to return, cycled through in order (e.g. 500,500,200)",
+      "200"
+    )
+    .option("--delay <ms>", "Delay before responding, in milliseconds", "0")
+    .addOption(
+      new Option(
+        "--format <format>",
+        "Body format of deliveries (detected by default)"
+      ).choices(ENCODING_FORMATS)
+    )
+    .addOption(
+      new Option(
+        "--compression <compression>",
+        "Compression of deliveries (detected from Content-Encoding and the body by default)"
+      ).choices(COMPRESSION_OPTIONS)
+    )
+    .action(async (options) => {
+      try {
+        const port = parseInt(options.port, 10);
+        const delay = parseInt(options.delay, 10);
+        const statusCodes = parseStatusCodes(options.status);
+
+        if (isNaN(port) || port < 0 || port > 65535) {
+          fail(`Invalid port: ${options.port}`);
+        }
+        if (isNaN(delay) || delay < 0) {
+          fail(`Invalid delay: ${options.delay}`);
+        }
+
+        let received = 0;
+
+        const server = http.createServer((req, res) => {
+          const chunks: Buffer[] = [];
+          req.on("data", (chunk) => chunks.push(chunk));
+          req.on("end", () => {
+            // A malformed delivery or a failed write must not stop the listener
+            let status = 500;
+            try {
+              const raw = Buffer.concat(chunks);
+
+              // Unpack compressed deliveries; non-JSON bodies are kept as text
+              let body: any = raw.toString("utf8");
+              let packing: string | undefined;
+              try {
+                const decoded = decodeDeliveryBody(raw, {
+                  format: options.format,
+                  compression: options.compression,
+                  contentEncoding: req.headers["content-encoding"],
+                });
+                body = decoded.body;
+                packing = [
+                  decoded.format !== "json" ? decoded.format : "",
+                  decoded.compression !== "none" ? decoded.compression : "",
+                ]
+                  .filter(Boolean)
+                  .join("+");
+              } catch (error) {
+                console.error(
+                  chalk.yellow(
+                    `Warning: ${
+                      error instanceof Error ? error.message : error
+                    }; recording the body as text`
+                  )
+                );
+              }
+
+              const record: DeliveryRecord = {
+                receivedAt: new Date().toISOString(),
+                method: req.method || "POST",
+                path: req.url || "/",
+                headers: req.headers,
+                body,
+                ...(packing ? { packing } : {}),
+              };
+
+              const authorized =
+                !options.authHeader ||
+                req.headers.authorization === options.authHeader;
+              status = authorized
+                ? statusCodes[received % statusCodes.length]
+                : 401;
+              received++;
+
+              if (options.record) {
+                appendDelivery(options.record, record);
+              }
+
+              if (isMachineOutput()) {
+                // The record file keeps the header for replay; stdout shows it redacted
+                const { authorization } = record.headers;
+                const headers =
+                  typeof authorization === "string"
+                    ? {
+                        ...record.headers,
+                        authorization: displaySecret(authorization),
+                      }
+                    : record.headers;
+                process.stdout.write(
+                  JSON.stringify({ ...record, headers, status, authorized }) +
+                    "\n"
+                );
+              } else {
+                info(formatDelivery(record, status, authorized));
+              }
+            } catch (error) {
+              console.error(
+                chalk.red("Error handling delivery:"),
+                error instanceof Error ? error.message : error
+              );
+            }
+
+            setTimeout(() => {
+              res.writeHead(status, { "Content-Type": "application/json" });
+              res.end(JSON.stringify({ received: status < 400 }));
+            }, delay);
+          });
+        });
+
+        server.on("error", (error) => {
+          exitWithError("Error running listener:", error);
+        });
+
+        server.listen(port, options.host, () => {
+          info(
+            chalk.green(
+              `Listening for webhook deliveries on http://${options.host}:${port}`
+            )
+          );
+          if (options.authHeader) {
+            info(chalk.dim("Checking the Authorization header"));
+          }
+          if (options.record) {
+            info(chalk.dim(`Recording deliveries to ${options.record}`));
+          }
+          info(chalk.dim("Press Ctrl+C to stop"));
+        });
+
+        process.on("SIGINT", () => {
+          server.close();
+          info(chalk.bold(`\nReceived ${received} deliveries`));
+          process.exit(0);
+        });
+      } catch (error) {
+        exitWithError("Error running listener:", error);
+      }
+    });
+}
+
+export default registerListenCommand;
@@ -0,0 +1,72 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { createMockServer } from "../mock-server";
+import { exitWithError, fail, info } from "../output";
+
+/**
+ * Register the mock-server command
+ * @param program Commander program
+ */
+export function registerMockServerCommand(program: Command): void {
+  program
+    .command("mock-server")
+    .description("Run an offline mock of the Helius webhook and DAS APIs")
+    .option("-p, --port <port>", "Port to listen on", "8899")
+    .option("--host <host>", "Host to bind to", "127.0.0.1")
+    .option(
+      "--api-key <key>",
+      "Only accept this API key (any non-empty key is accepted by default)"
+    )
+    .option("--data <file>", "Load and save webhooks and collections in a file")
+    .option(
+      "--collection-size <n>",
+      "Number of assets generated for unknown collections",
+      "2500"
+    )
+    .option("--verbose", "Log every request")
+    .action((options) => {
+      try {
+        const port = parseInt(options.port, 10);
+        const collectionSize = parseInt(options.collectionSize, 10);
+
+        if (isNaN(port) || port < 0 || port > 65535) {
+          fail(`Invalid port: ${options.port}`);
+        }
+        if (isNaN(collectionSize) || collectionSize < 0) {
+          fail(`Invalid collection size: ${options.collectionSize}`);
+        }
+
+        const server = createMockServer({
+          apiKey: options.apiKey,
+          dataFile: options.data,
+          collectionSize,
+          log: options.verbose
+            ? (message) => info(chalk.dim(message))
+            : undefined,
+        });
+
+        server.on("error", (error) => {
+          exitWithError("Error running mock server:", error);
+        });
+
+        server.listen(port, options.host, () => {
+          const url = `http://${options.host}:${port}`;
+          info(chalk.green(`Mock Helius API listening on ${url}`));
+          info("\nPoint the CLI at it with:");
+          info(`  helius config set baseUrl ${url}/v0`);
+          info(`  helius config set rpcUrl ${url}/`);
+          info(`  helius config set devnetRpcUrl ${url}/`);
+          info(chalk.dim("\nPress Ctrl+C to stop"));
+        });
+
+        process.on("SIGINT", () => {
+          server.close();
+          process.exit(0);
+        });
+      } catch (error) {
+        exitWithError("Error running mock server:", error);
+      }
+    });
+}
+
+export default registerMockServerCommand;
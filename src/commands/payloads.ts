@@ -0,0 +1,173 @@
+import * as fs from "fs";
+import { Command, Option } from "commander";
+import chalk from "chalk";
+import { isValidAddress } from "../addresses";
+import { TRANSACTION_TYPES } from "../constants";
+import { readDeliveries } from "../deliveries";
+import {
+  exitWithError,
+  fail,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import { PayloadValidation, validatePayload } from "../payload-validation";
+import {
+  DEFAULT_SAMPLE_SEED,
+  expandSampleTypes,
+  PAYLOAD_FORMATS,
+  PayloadFormat,
+  samplePayload,
+} from "../payloads";
+
+/**
+ * Read the delivery bodies to validate from a file
+ * JSONL files are read as deliveries recorded by `webhooks listen --record`;
+ * any other file is one delivery body, e.g. written by `payloads sample`
+ * @param file Path to the file
+ * @returns Delivery bodies
+ */
+function readPayloads(file: string): unknown[] {
+  if (file.endsWith(".jsonl")) {
+    return readDeliveries(file).map((delivery) => delivery.body);
+  }
+  try {
+    return [JSON.parse(fs.readFileSync(file, "utf8"))];
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`Invalid JSON in ${file}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Register payload commands
+ * @param program Commander program
+ */
+export function registerPayloadCommands(program: Command): void {
+  const payloads = program
+    .command("payloads")
+    .description("Generate and validate webhook delivery payloads");
+
+  // Print a deterministic sample delivery
+  payloads
+    .command("sample")
+    .description("Print a realistic sample delivery body")
+    .requiredOption(
+      "-t, --type <types>",
+      "Transaction types of the sample (comma-separated list; ANY gives a mix)"
+    )
+    .addOption(
+      new Option("--format <format>", "Delivery format")
+        .choices(PAYLOAD_FORMATS)
+        .default("enhanced")
+    )
+    .option(
+      "--seed <seed>",
+      "Seed the signatures, accounts and amounts are derived from",
+      DEFAULT_SAMPLE_SEED
+    )
+    .option(
+      "--addresses <addresses>",
+      "Account addresses to use as the sample's users (comma-separated list)"
+    )
+    .action((options) => {
+      try {
+        const types: string[] = options.type
+          .split(",")
+          .map((t: string) => t.trim().toUpperCase());
+        const invalid = types.filter((t) => !TRANSACTION_TYPES.includes(t));
+        if (invalid.length > 0) {
+          fail(
+            `Invalid transaction types: ${invalid.join(", ")}`,
+            `Valid types are: ${TRANSACTION_TYPES.join(", ")}`
+          );
+        }
+
+        const addresses: string[] = options.addresses
+          ? options.addresses.split(",").map((a: string) => a.trim())
+          : [];
+        for (const address of addresses) {
+          if (!isValidAddress(address)) {
+            fail(`Invalid address: ${address}`);
+          }
+        }
+
+        const payload = samplePayload(
+          options.format as PayloadFormat,
+          expandSampleTypes(types),
+          { seed: options.seed, addresses }
+        );
+
+        if (isMachineOutput()) {
+          printData(payload);
+        } else {
+          info(JSON.stringify(payload, null, 2));
+        }
+      } catch (error) {
+        exitWithError("Error generating sample:", error);
+      }
+    });
+
+  // Check captured deliveries against the payload schema
+  payloads
+    .command("validate <file>")
+    .description(
+      "Check a delivery body, or deliveries recorded by webhooks listen, against the payload schema"
+    )
+    .addOption(
+      new Option(
+        "--format <format>",
+        "Expected delivery format (detected from each delivery by default)"
+      ).choices(PAYLOAD_FORMATS)
+    )
+    .action((file: string, options) => {
+      try {
+        if (!fs.existsSync(file)) {
+          fail(`File not found: ${file}`);
+        }
+
+        const results: (PayloadValidation & { index: number })[] = readPayloads(
+          file
+        ).map((body, index) => ({
+          index,
+          ...validatePayload(body, options.format as PayloadFormat),
+        }));
+        const valid = results.filter((r) => r.issues.length === 0).length;
+
+        if (isMachineOutput()) {
+          printData(results);
+        } else {
+          for (const result of results) {
+            const label = `#${result.index + 1}`;
+            if (result.issues.length === 0) {
+              info(
+                `${label} ${chalk.green("valid")} ${chalk.dim(
+                  `${result.format}, ${result.transactions} transactions`
+                )}`
+              );
+              continue;
+            }
+            info(
+              `${label} ${chalk.red(
+                `${result.issues.length} issues`
+              )} ${chalk.dim(result.format || "unknown format")}`
+            );
+            for (const issue of result.issues) {
+              info(`  ${issue.path || "(body)"}: ${issue.message}`);
+            }
+          }
+          info(chalk.bold(`\n${valid}/${results.length} deliveries valid`));
+        }
+
+        if (valid < results.length) {
+          process.exit(1);
+        }
+      } catch (error) {
+        exitWithError("Error validating payloads:", error);
+      }
+    });
+}
+
+export default registerPayloadCommands;
@@ -0,0 +1,293 @@
+import { Command } from "commander";
+import axios from "axios";
+import chalk from "chalk";
+import { heliusApi } from "../api";
+import { ensureConfig } from "../config";
+import {
+  DeliveryRecord,
+  readDeliveries,
+  transactionsOf,
+  transactionSignature,
+  transactionType,
+} from "../deliveries";
+import {
+  exitWithError,
+  fail,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import { resolveWebhookID } from "./labels";
+
+// Define available replay orders
+const REPLAY_ORDERS = ["recorded", "reverse", "shuffle"];
+
+// Timeout for each replayed delivery, in milliseconds
+const REPLAY_TIMEOUT = 30000;
+
+// Result of replaying one delivery
+interface ReplayResult {
+  index: number;
+  status: number | null;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Parse a comma-separated option into a set of values
+ * @param value Option value
+ * @returns Set of values, or undefined if the option was not given
+ */
+function parseList(value: string | undefined): Set<string> | undefined {
+  if (!value) return undefined;
+  return new Set(value.split(",").map((v) => v.trim()));
+}
+
+/**
+ * Select deliveries that contain a transaction matching the filters
+ * @param deliveries Recorded deliveries
+ * @param types Transaction types to keep
+ * @param signatures Signatures to keep
+ * @returns Matching deliveries
+ */
+function filterDeliveries(
+  deliveries: DeliveryRecord[],
+  types?: Set<string>,
+  signatures?: Set<string>
+): DeliveryRecord[] {
+  return deliveries.filter((delivery) => {
+    const transactions = transactionsOf(delivery.body);
+    if (types && !transactions.some((tx) => types.has(transactionType(tx)))) {
+      return false;
+    }
+    if (
+      signatures &&
+      !transactions.some((tx) => signatures.has(transactionSignature(tx) || ""))
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Order deliveries for replay
+ * @param deliveries Deliveries in recorded order
+ * @param order One of REPLAY_ORDERS
+ * @returns Reordered deliveries
+ */
+function orderDeliveries(
+  deliveries: DeliveryRecord[],
+  order: string
+): DeliveryRecord[] {
+  const ordered = [...deliveries];
+  if (order === "reverse") {
+    ordered.reverse();
+  } else if (order === "shuffle") {
+    for (let i = ordered.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [ordered[i], ordered[j]] = [ordered[j], ordered[i]];
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Send one delivery to the target endpoint
+ * @param url Target URL
+ * @param delivery Recorded delivery
+ * @param authHeader Authorization header to send, if any
+ * @returns Status code and latency
+ */
+async function sendDelivery(
+  url: string,
+  delivery: DeliveryRecord,
+  authHeader?: string
+): Promise<Omit<ReplayResult, "index">> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (authHeader) {
+    headers["Authorization"] = authHeader;
+  }
+
+  const start = Date.now();
+  try {
+    const response = await axios.post(url, delivery.body, {
+      headers,
+      timeout: REPLAY_TIMEOUT,
+      validateStatus: () => true,
+    });
+    return { status: response.status, latencyMs: Date.now() - start };
+  } catch (error) {
+    return {
+      status: null,
+      latencyMs: Date.now() - start,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Register the replay command
+ * @param webhooks Commander `webhooks` command
+ */
+export function registerReplayCommand(webhooks: Command): void {
+  webhooks
+    .command("replay")
+    .description("Re-send recorded webhook deliveries to an endpoint")
+    .requiredOption("--from <file>", "JSONL file recorded by webhooks listen")
+    .requiredOption("--to <url>", "Endpoint to send the deliveries to")
+    .option("-a, --auth-header <header>", "Authorization header to send")
+    .option(
+      "--webhook <webhookID>",
+      "Use the auth header of an existing webhook"
+    )
+    .option("--concurrency <n>", "Number of deliveries in flight", "1")
+    .option("--rate <n>", "Maximum deliveries per second (0 for no limit)", "0")
+    .option(
+      "--order <order>",
+      `Replay order (${REPLAY_ORDERS.join(", ")})`,
+      "recorded"
+    )
+    .option("--types <types>", "Only replay these transaction types")
+    .option("--signatures <signatures>", "Only replay these signatures")
+    .action(async (options) => {
+      try {
+        const concurrency = parseInt(options.concurrency, 10);
+        const rate = parseFloat(options.rate);
+
+        if (isNaN(concurrency) || concurrency < 1) {
+          fail(`Invalid concurrency: ${options.concurrency}`);
+        }
+        if (isNaN(rate) || rate < 0) {
+          fail(`Invalid rate: ${options.rate}`);
+        }
+        if (!REPLAY_ORDERS.includes(options.order)) {
+          fail(
+            `Invalid order: ${options.order}`,
+            `Valid orders are: ${REPLAY_ORDERS.join(", ")}`
+          );
+        }
+
+        // Resolve the auth header from an existing webhook if requested
+        let authHeader: string | undefined = options.authHeader;
+        if (!authHeader && options.webhook) {
+          await ensureConfig();
+          const webhook = await heliusApi.getWebhook(
+            await resolveWebhookID(options.webhook)
+          );
+          authHeader = webhook.authHeader;
+        }
+
+        const deliveries = orderDeliveries(
+          filterDeliveries(
+            readDeliveries(options.from),
+            parseList(options.types),
+            parseList(options.signatures)
+          ),
+          options.order
+        );
+
+        if (deliveries.length === 0) {
+          info(chalk.yellow("No deliveries match the filters."));
+          if (isMachineOutput()) {
+            printData([]);
+          }
+          return;
+        }
+
+        info(
+          chalk.bold(
+            `Replaying ${deliveries.length} deliveries to ${options.to}`
+          )
+        );
+
+        const results: ReplayResult[] = [];
+        const interval = rate > 0 ? 1000 / rate : 0;
+        let nextStart = Date.now();
+        let next = 0;
+
+        // Each worker takes the next delivery until none are left
+        const worker = async () => {
+          while (next < deliveries.length) {
+            const index = next++;
+
+            if (interval > 0) {
+              const wait = nextStart - Date.now();
+              nextStart = Math.max(nextStart, Date.now()) + interval;
+              if (wait > 0) {
+                await new Promise((resolve) => setTimeout(resolve, wait));
+              }
+            }
+
+            const delivery = deliveries[index];
+            const result = {
+              index,
+              ...(await sendDelivery(
+                options.to,
+                delivery,
+                authHeader ||
+                  (delivery.headers?.authorization as string | undefined)
+              )),
+            };
+            results.push(result);
+
+            const signatures = transactionsOf(delivery.body)
+              .map((tx) => transactionSignature(tx))
+              .filter(Boolean)
+              .join(", ");
+            const status =
+              result.status === null
+                ? chalk.red(result.error)
+                : result.status >= 400
+                ? chalk.red(result.status)
+                : chalk.green(result.status);
+            info(
+              `#${index + 1} ${status} ${chalk.dim(
+                `${result.latencyMs}ms`
+              )} ${chalk.dim(signatures)}`
+            );
+          }
+        };
+
+        await Promise.all(
+          Array.from({ length: Math.min(concurrency, deliveries.length) }, () =>
+            worker()
+          )
+        );
+
+        results.sort((a, b) => a.index - b.index);
+
+        const succeeded = results.filter(
+          (r) => r.status !== null && r.status < 400
+        ).length;
+        const latencies = results.map((r) => r.latencyMs);
+        const average = Math.round(
+          latencies.reduce((sum, l) => sum + l, 0) / latencies.length
+        );
+
+        info(
+          chalk.bold(
+            `\n${succeeded}/${
+              results.length
+            } succeeded, average latency ${average}ms, max ${Math.max(
+              ...latencies
+            )}ms`
+          )
+        );
+
+        if (isMachineOutput()) {
+          printData(results);
+        }
+
+        if (succeeded < results.length) {
+          process.exit(1);
+        }
+      } catch (error) {
+        exitWithError("Error replaying deliveries:", error);
+      }
+    });
+}
+
+export default registerReplayCommand;
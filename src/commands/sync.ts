@@ -0,0 +1,307 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import { heliusApi, Webhook, webhookNetwork } from "../api";
+import { describeAssetSource } from "../asset-sources";
+import { ensureConfig, getAddressLimit } from "../config";
+import {
+  exitWithError,
+  fail,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import {
+  groupNameOfKey,
+  groupSourcesKey,
+  loadWebhookSources,
+  planSync,
+  saveWebhookSources,
+  SyncPlan,
+  WebhookSources,
+} from "../webhook-sources";
+import { resolveAssetSources } from "./asset-options";
+import { applyGroupAddresses, fetchGroupMembers } from "./groups";
+import { resolveWebhookID } from "./labels";
+
+// Maximum number of added or removed addresses listed per webhook
+const MAX_LISTED_CHANGES = 10;
+
+// Result of syncing one webhook or webhook group
+interface SyncResult {
+  webhookID?: string;
+  group?: string;
+  added: number;
+  removed: number;
+  total: number;
+  dryRun: boolean;
+  error?: string;
+}
+
+/**
+ * Print the added and removed addresses of a sync plan
+ * @param plan Sync plan
+ */
+function printSyncPlan(plan: SyncPlan): void {
+  const list = (addresses: string[], sign: string, color: chalk.Chalk) => {
+    addresses
+      .slice(0, MAX_LISTED_CHANGES)
+      .forEach((address) => info(color(`  ${sign} ${address}`)));
+    if (addresses.length > MAX_LISTED_CHANGES) {
+      info(
+        chalk.dim(`  ... and ${addresses.length - MAX_LISTED_CHANGES} more`)
+      );
+    }
+  };
+
+  list(plan.added, "+", chalk.green);
+  list(plan.removed, "-", chalk.red);
+}
+
+/**
+ * Fetch the webhook behind a sources key
+ * @param key Webhook ID, or a groupSourcesKey
+ * @returns Member webhooks (a single one unless the key is a group)
+ */
+async function fetchSyncTarget(key: string): Promise<Webhook[]> {
+  const group = groupNameOfKey(key);
+  if (group) {
+    return fetchGroupMembers(group);
+  }
+
+  const spinner = ora(`Fetching webhook ${key}...`).start();
+  try {
+    const webhook = await heliusApi.getWebhook(key);
+    spinner.succeed(`Found webhook ${key}`);
+    return [webhook];
+  } catch (error) {
+    spinner.fail(`Failed to fetch webhook ${key}`);
+    throw error;
+  }
+}
+
+/**
+ * Re-resolve the sources of one webhook or group and push the address changes
+ * @param key Webhook ID, or a groupSourcesKey
+ * @param entry Recorded sources of the webhook
+ * @param dryRun Only report the changes
+ * @returns Sync result and the addresses the sources resolved to
+ */
+async function syncWebhook(
+  key: string,
+  entry: WebhookSources,
+  dryRun: boolean
+): Promise<{ result: SyncResult; resolved: string[] }> {
+  const group = groupNameOfKey(key);
+  const label = group ? `webhook group ${group}` : `webhook ${key}`;
+  const members = await fetchSyncTarget(key);
+  info(
+    chalk.dim(`Sources: ${entry.sources.map(describeAssetSource).join(", ")}`)
+  );
+
+  // Resolve each source with the filters and limit it was recorded with
+  const addresses: string[] = [];
+  for (const source of entry.sources) {
+    addresses.push(
+      ...(await resolveAssetSources([source], {
+        network: webhookNetwork(members[0].webhookType),
+        limit: source.limit,
+        filters: source.filters,
+        skipInvalid: true,
+        failFast: true,
+      }))
+    );
+  }
+
+  const resolved = Array.from(new Set(addresses));
+  const plan = planSync(
+    members.flatMap((m) => m.accountAddresses),
+    entry.resolved,
+    resolved
+  );
+  const result: SyncResult = {
+    ...(group ? { group } : { webhookID: key }),
+    added: plan.added.length,
+    removed: plan.removed.length,
+    total: plan.addresses.length,
+    dryRun,
+  };
+
+  if (plan.added.length === 0 && plan.removed.length === 0) {
+    info(chalk.green(`${capitalize(label)} is already in sync`));
+    return { result, resolved };
+  }
+
+  info(
+    chalk.bold(
+      `${dryRun ? "Would add" : "Adding"} ${plan.added.length} and ${
+        dryRun ? "remove" : "removing"
+      } ${plan.removed.length} addresses (${plan.addresses.length} total)`
+    )
+  );
+  printSyncPlan(plan);
+
+  if (dryRun) {
+    return { result, resolved };
+  }
+
+  if (group) {
+    // The group spreads the new list over its members, adding or removing webhooks as needed
+    const updated = await applyGroupAddresses(group, members, plan.addresses);
+    info(
+      chalk.green(`Webhook group ${group} synced (${updated.length} webhooks)`)
+    );
+    return { result, resolved };
+  }
+
+  if (plan.addresses.length > getAddressLimit()) {
+    throw new Error(
+      `Webhook ${key} would monitor ${
+        plan.addresses.length
+      } addresses, more than the limit of ${getAddressLimit()} per webhook`
+    );
+  }
+
+  const updateSpinner = ora(`Updating webhook ${key}...`).start();
+  try {
+    const { webhookID: _, ...data } = members[0];
+    await heliusApi.updateWebhook(key, {
+      ...data,
+      accountAddresses: plan.addresses,
+    });
+    updateSpinner.succeed(`Webhook ${key} synced`);
+  } catch (error) {
+    updateSpinner.fail(`Failed to update webhook ${key}`);
+    throw error;
+  }
+
+  return { result, resolved };
+}
+
+/**
+ * Capitalize the first letter of a message
+ * @param text Text
+ * @returns Capitalized text
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Register the sync command
+ * @param webhooks Commander `webhooks` command
+ */
+export function registerSyncCommand(webhooks: Command): void {
+  webhooks
+    .command("sync [webhookID]")
+    .description(
+      "Re-resolve the on-chain sources of webhooks and update their addresses"
+    )
+    .option("--group <name>", "Sync a webhook group")
+    .option("--all", "Sync every webhook and group with recorded sources")
+    .option("--dry-run", "Show the changes without updating any webhook")
+    .action(async (webhookID: string | undefined, options) => {
+      try {
+        const targets = [webhookID, options.group, options.all].filter(Boolean);
+        if (targets.length === 0) {
+          fail("Specify a webhook ID, --group or --all");
+        }
+        if (targets.length > 1) {
+          fail("Specify only one of a webhook ID, --group or --all");
+        }
+
+        // Ensure configuration is set
+        await ensureConfig();
+
+        if (webhookID) {
+          webhookID = await resolveWebhookID(webhookID);
+        }
+
+        const store = loadWebhookSources();
+        const key = options.group ? groupSourcesKey(options.group) : webhookID;
+        const ids = key ? [key] : Object.keys(store);
+
+        if (key && !store[key]) {
+          fail(
+            `No on-chain sources recorded for ${
+              options.group
+                ? `webhook group ${options.group}`
+                : `webhook ${key}`
+            }`,
+            "Create or update the webhook with --collection, --creator, --authority or --owner"
+          );
+        }
+
+        if (ids.length === 0) {
+          info(chalk.yellow("No webhooks have recorded sources."));
+          if (isMachineOutput()) {
+            printData([]);
+          }
+          return;
+        }
+
+        const results: SyncResult[] = [];
+
+        for (const id of ids) {
+          const group = groupNameOfKey(id);
+          info(
+            chalk.bold(
+              group
+                ? `\n--- Webhook group ${group} ---`
+                : `\n--- Webhook ${id} ---`
+            )
+          );
+          try {
+            const { result, resolved } = await syncWebhook(
+              id,
+              store[id],
+              Boolean(options.dryRun)
+            );
+            results.push(result);
+
+            if (!options.dryRun) {
+              store[id] = {
+                ...store[id],
+                resolved,
+                syncedAt: new Date().toISOString(),
+              };
+              saveWebhookSources(store);
+            }
+          } catch (error) {
+            // A single webhook or group fails the whole command
+            if (key) throw error;
+
+            const message =
+              error instanceof Error ? error.message : String(error);
+            info(
+              chalk.red(
+                `Skipping ${
+                  group ? `webhook group ${group}` : `webhook ${id}`
+                }: ${message}`
+              )
+            );
+            results.push({
+              ...(group ? { group } : { webhookID: id }),
+              added: 0,
+              removed: 0,
+              total: 0,
+              dryRun: Boolean(options.dryRun),
+              error: message,
+            });
+          }
+        }
+
+        if (isMachineOutput()) {
+          printData(results);
+        }
+
+        if (results.some((r) => r.error)) {
+          process.exit(1);
+        }
+      } catch (error) {
+        exitWithError("Error syncing webhooks:", error);
+      }
+    });
+}
+
+export default registerSyncCommand;
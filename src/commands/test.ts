@@ -0,0 +1,214 @@
+import { Command } from "commander";
+import axios from "axios";
+import chalk from "chalk";
+import * as crypto from "crypto";
+import { heliusApi, Webhook } from "../api";
+import { ensureConfig } from "../config";
+import { encodeDeliveryBody } from "../deliveries";
+import { TRANSACTION_TYPES, WEBHOOK_TYPES } from "../constants";
+import {
+  exitWithError,
+  fail,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import {
+  expandSampleTypes,
+  PayloadFormat,
+  payloadFormat,
+  samplePayload,
+} from "../payloads";
+import { resolveWebhookID } from "./labels";
+
+// Timeout for each test delivery, in milliseconds
+const TEST_TIMEOUT = 30000;
+
+// Length of the response body shown for each delivery
+const BODY_PREVIEW_LENGTH = 200;
+
+// Result of sending one test delivery
+interface TestResult {
+  transactionType: string;
+  format: PayloadFormat;
+  status: number | null;
+  latencyMs: number;
+  body?: string;
+  error?: string;
+}
+
+/**
+ * Send a test delivery to an endpoint
+ * @param url Endpoint URL
+ * @param payload Delivery body
+ * @param authHeader Authorization header to send, if any
+ * @param encodingConfig Format and compression to pack the body with, if any
+ * @returns Status code, latency and response body
+ */
+async function sendTestDelivery(
+  url: string,
+  payload: unknown,
+  authHeader?: string,
+  encodingConfig?: Webhook["encoding_config"]
+): Promise<Pick<TestResult, "status" | "latencyMs" | "body" | "error">> {
+  const { data, headers } = encodeDeliveryBody(payload, encodingConfig);
+  if (authHeader) {
+    headers["Authorization"] = authHeader;
+  }
+
+  const start = Date.now();
+  try {
+    const response = await axios.post(url, data, {
+      headers,
+      timeout: TEST_TIMEOUT,
+      validateStatus: () => true,
+      // Keep the body as sent, whatever its content type
+      transformResponse: (data) => data,
+    });
+    return {
+      status: response.status,
+      latencyMs: Date.now() - start,
+      body: typeof response.data === "string" ? response.data : "",
+    };
+  } catch (error) {
+    return {
+      status: null,
+      latencyMs: Date.now() - start,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Register the test command
+ * @param webhooks Commander `webhooks` command
+ */
+export function registerTestCommand(webhooks: Command): void {
+  webhooks
+    .command("test [webhookID]")
+    .description(
+      "Send synthetic Helius deliveries to a webhook's endpoint, or to --url"
+    )
+    .option("--url <url>", "Endpoint to send to instead of the webhook URL")
+    .option(
+      "-t, --type <type>",
+      "Webhook type deciding the payload format (default: the webhook's, or enhanced)"
+    )
+    .option(
+      "--types <types>",
+      "Transaction types to send (default: the webhook's, or ANY)"
+    )
+    .option("-a, --auth-header <header>", "Authorization header to send")
+    .action(async (webhookID: string | undefined, options) => {
+      try {
+        if (!webhookID && !options.url) {
+          fail(
+            "Specify a webhook ID or --url",
+            "Use helius webhooks test --url <url> to test an endpoint without a webhook"
+          );
+        }
+        if (options.type && !WEBHOOK_TYPES.includes(options.type)) {
+          fail(
+            `Invalid webhook type: ${options.type}`,
+            `Valid types are: ${WEBHOOK_TYPES.join(", ")}`
+          );
+        }
+
+        let url: string = options.url;
+        let webhookType: string = options.type || "enhanced";
+        let transactionTypes: string[] = ["ANY"];
+        let authHeader: string | undefined = options.authHeader;
+        let addresses: string[] = [];
+        let encodingConfig: Webhook["encoding_config"];
+
+        // Take the target and payload shape from the webhook, unless overridden
+        if (webhookID) {
+          await ensureConfig();
+          webhookID = await resolveWebhookID(webhookID);
+          const webhook = await heliusApi.getWebhook(webhookID);
+          url = url || webhook.webhookURL;
+          webhookType = options.type || webhook.webhookType;
+          transactionTypes = webhook.transactionTypes;
+          authHeader = authHeader || webhook.authHeader;
+          addresses = webhook.accountAddresses;
+          encodingConfig = webhook.encoding_config;
+        }
+
+        if (options.types) {
+          transactionTypes = options.types
+            .split(",")
+            .map((t: string) => t.trim().toUpperCase());
+          const invalid = transactionTypes.filter(
+            (t) => !TRANSACTION_TYPES.includes(t)
+          );
+          if (invalid.length > 0) {
+            fail(`Invalid transaction types: ${invalid.join(", ")}`);
+          }
+        }
+
+        // ANY stands for everything, so send a few representative types
+        const types = expandSampleTypes(transactionTypes);
+        const format = payloadFormat(webhookType);
+        const seed = crypto.randomUUID();
+
+        info(
+          chalk.bold(
+            `Sending ${types.length} ${format} test deliveries to ${url}`
+          )
+        );
+
+        const results: TestResult[] = [];
+        for (const transactionType of types) {
+          const payload = samplePayload(format, transactionType, {
+            seed,
+            addresses,
+          });
+          const result: TestResult = {
+            transactionType,
+            format,
+            ...(await sendTestDelivery(
+              url,
+              payload,
+              authHeader,
+              encodingConfig
+            )),
+          };
+          results.push(result);
+
+          const status =
+            result.status === null
+              ? chalk.red(result.error)
+              : result.status >= 400
+              ? chalk.red(result.status)
+              : chalk.green(result.status);
+          info(
+            `${transactionType} ${status} ${chalk.dim(`${result.latencyMs}ms`)}`
+          );
+          if (result.body) {
+            const preview =
+              result.body.length > BODY_PREVIEW_LENGTH
+                ? `${result.body.slice(0, BODY_PREVIEW_LENGTH)}...`
+                : result.body;
+            info(chalk.dim(`  ${preview.replace(/\s+/g, " ")}`));
+          }
+        }
+
+        const succeeded = results.filter(
+          (r) => r.status !== null && r.status < 400
+        ).length;
+        info(chalk.bold(`\n${succeeded}/${results.length} accepted by ${url}`));
+
+        if (isMachineOutput()) {
+          printData(results);
+        }
+
+        if (succeeded < results.length) {
+          process.exit(1);
+        }
+      } catch (error) {
+        exitWithError("Error testing webhook:", error);
+      }
+    });
+}
+
+export default registerTestCommand;
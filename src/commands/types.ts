@@ -0,0 +1,71 @@
+import { Command, Option } from "commander";
+import chalk from "chalk";
+import { TRANSACTION_TYPE_INFO, WEBHOOK_TYPES } from "../constants";
+import {
+  exitWithError,
+  formatTable,
+  info,
+  isMachineOutput,
+  printData,
+} from "../output";
+import { allowedTransactionTypes } from "../webhook-rules";
+
+/**
+ * Register transaction type commands
+ * @param program Commander program
+ */
+export function registerTypeCommands(program: Command): void {
+  const types = program
+    .command("types")
+    .description("Browse the transaction types webhooks can monitor");
+
+  // List transaction types with their descriptions and sources
+  types
+    .command("list")
+    .description("List transaction types with their program sources")
+    .addOption(
+      new Option(
+        "--webhook-type <type>",
+        "Only list the transaction types this webhook type can monitor"
+      ).choices(WEBHOOK_TYPES)
+    )
+    .action((options) => {
+      try {
+        const names = options.webhookType
+          ? allowedTransactionTypes(options.webhookType)
+          : Object.keys(TRANSACTION_TYPE_INFO);
+        const rows = names.map((name) => ({
+          type: name,
+          ...TRANSACTION_TYPE_INFO[name],
+        }));
+
+        if (isMachineOutput()) {
+          printData(rows);
+          return;
+        }
+
+        info(
+          formatTable(
+            ["TYPE", "DESCRIPTION", "SOURCES"],
+            rows.map((row) => [
+              row.type,
+              row.description,
+              row.sources.length > 0 ? row.sources.join(", ") : "-",
+            ])
+          )
+        );
+
+        if (options.webhookType?.startsWith("raw")) {
+          info(
+            chalk.dim(
+              "\nRaw webhooks receive every transaction unparsed, so they only monitor ANY."
+            )
+          );
+        }
+      } catch (error) {
+        exitWithError("Error listing transaction types:", error);
+      }
+    });
+}
+
+export default registerTypeCommands;
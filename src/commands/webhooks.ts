@@ -1,83 +1,102 @@
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import chalk from "chalk";
 import ora from "ora";
 import inquirer from "inquirer";
-import { heliusApi, Webhook } from "../api";
-import { ensureConfig } from "../config";
-
-// Define available transaction types
-const TRANSACTION_TYPES = [
-  "ANY",
-  "NFT_SALE",
-  "NFT_LISTING",
-  "NFT_CANCEL_LISTING",
-  "NFT_MINT",
-  "NFT_AUCTION_CREATED",
-  "NFT_BID",
-  "NFT_AUCTION_COMPLETE",
-  "SWAP",
-  "SWAP_SOL",
-  "SWAP_TOKEN",
-  "TOKEN_MINT",
-  "TOKEN_BURN",
-  "TRANSFER",
-  "SOL_TRANSFER",
-  "STAKE",
-  "STAKE_DELEGATION",
-  "UNSTAKE",
-  "VOTE",
-  "UNKNOWN",
-];
-
-// Define available webhook types
-const WEBHOOK_TYPES = [
-  "raw",
-  "rawDevnet",
-  "enhanced",
-  "enhancedDevnet",
-  "discord",
-  "discordDevnet",
-];
-
-// Define available transaction status options
-const TXN_STATUS_OPTIONS = ["all", "success", "failed"];
-
-/**
- * Format webhook data for display
- * @param webhook Webhook data
- * @returns Formatted string
- */
-function formatWebhook(webhook: Webhook): string {
-  return `
-${chalk.bold("ID:")} ${webhook.webhookID}
-${chalk.bold("URL:")} ${webhook.webhookURL}
-${chalk.bold("Type:")} ${webhook.webhookType}
-${chalk.bold("Transaction Types:")} ${webhook.transactionTypes.join(", ")}
-${chalk.bold("Account Addresses:")} ${
-    webhook.accountAddresses.length
-      ? webhook.accountAddresses.join(", ")
-      : "None"
-  }
-${
-  webhook.txnStatus
-    ? `${chalk.bold("Transaction Status:")} ${webhook.txnStatus}`
-    : ""
-}
-${webhook.encoding ? `${chalk.bold("Encoding:")} ${webhook.encoding}` : ""}
-${
-  webhook.encoding_config
-    ? `${chalk.bold("Encoding Config:")} Format: ${
-        webhook.encoding_config.format
-      }, Compression: ${webhook.encoding_config.compression}`
-    : ""
-}
-${
-  webhook.authHeader
-    ? `${chalk.bold("Auth Header:")} ${webhook.authHeader}`
-    : ""
-}
-`;
-}
+import {
+  heliusApi,
+  HeliusApiError,
+  NETWORKS,
+  Webhook,
+  webhookNetwork,
+} from "../api";
+import {
+  ASSET_SOURCE_KINDS,
+  ASSET_SOURCE_LABELS,
+  AssetFilters,
+  AssetSource,
+  AssetSourceKind,
+  DEFAULT_ASSET_FILTERS,
+  parseAssetFilters,
+  parseAssetSources,
+} from "../asset-sources";
+import {
+  findInvalidAddresses,
+  formatInvalidAddresses,
+  validateAddresses,
+} from "../addresses";
+import { ensureConfig, getAddressLimit } from "../config";
+import {
+  COMPRESSION_OPTIONS,
+  ENCODING_FORMATS,
+  ENCODING_OPTIONS,
+  TRANSACTION_TYPES,
+  TXN_STATUS_OPTIONS,
+  WEBHOOK_TYPES,
+} from "../constants";
+import {
+  exitWithError,
+  fail,
+  failOnRuleViolations,
+  formatWebhookDiff,
+  info,
+  isMachineOutput,
+  printData,
+  printWebhook,
+  printWebhooks,
+} from "../output";
+import { confirmPrompt, requireInput } from "../prompt";
+import {
+  allowedTransactionTypes,
+  checkTransactionTypes,
+  checkWebhookURL,
+  findRuleViolations,
+} from "../webhook-rules";
+import {
+  findWebhookGroup,
+  forgetWebhookGroup,
+  getWebhookGroup,
+  loadWebhookGroups,
+  recordWebhookGroup,
+} from "../webhook-groups";
+import {
+  findStaleLabels,
+  forgetWebhookLabels,
+  labelsByWebhook,
+} from "../webhook-labels";
+import {
+  matchesWebhookFilter,
+  parseWebhookFilter,
+  sortWebhooks,
+  WEBHOOK_SORT_KEYS,
+} from "../webhook-filters";
+import {
+  forgetWebhookSources,
+  groupSourcesKey,
+  recordWebhookSources,
+  TrackedSource,
+} from "../webhook-sources";
+import { registerAddressCommands } from "./addresses";
+import {
+  addAssetSourceOptions,
+  confirmAssetAddresses,
+  parseLimit,
+  resolveAssetSources,
+} from "./asset-options";
+import { registerBackupCommands } from "./backup";
+import { registerCloneCommand } from "./clone";
+import { registerFindAddressCommand } from "./find-address";
+import {
+  applyGroupAddresses,
+  createWebhookGroup,
+  fetchGroupMembers,
+  generateGroupName,
+  registerGroupCommands,
+} from "./groups";
+import { registerLabelCommands, resolveWebhookID } from "./labels";
+import { registerListenCommand } from "./listen";
+import { registerReplayCommand } from "./replay";
+import { registerSyncCommand } from "./sync";
+import { registerTestCommand } from "./test";
 
 /**
  * Register webhook commands
@@ -88,65 +107,155 @@ export function registerWebhookCommands(program: Command): void {
     .command("webhooks")
     .description("Manage Helius webhooks");
 
+  // Register address management subcommands
+  registerAddressCommands(webhooks);
+
+  // Register export and import subcommands
+  registerBackupCommands(webhooks);
+
+  // Register the local delivery receiver
+  registerListenCommand(webhooks);
+
+  // Register the delivery replayer
+  registerReplayCommand(webhooks);
+
+  // Register the on-chain source sync
+  registerSyncCommand(webhooks);
+
+  // Register webhook group management
+  registerGroupCommands(webhooks);
+
+  // Register copying webhooks between networks and accounts
+  registerCloneCommand(webhooks);
+
+  // Register looking up the webhooks watching an address
+  registerFindAddressCommand(webhooks);
+
+  // Register test deliveries to webhook endpoints
+  registerTestCommand(webhooks);
+
+  // Register local webhook labels
+  registerLabelCommands(webhooks);
+
   // List all webhooks
   webhooks
     .command("list")
     .description("List all webhooks")
-    .action(async () => {
+    .option("--group <name>", "Only list the webhooks of a webhook group")
+    .option("--type <type>", "Only list webhooks of this type")
+    .addOption(
+      new Option(
+        "--network <network>",
+        "Only list webhooks delivering from this network"
+      ).choices(NETWORKS)
+    )
+    .option(
+      "--url-contains <text>",
+      "Only list webhooks whose URL contains text"
+    )
+    .option(
+      "--tx-type <types>",
+      "Only list webhooks monitoring any of these transaction types (comma-separated list)"
+    )
+    .option("--has-address <address>", "Only list webhooks watching an address")
+    .option(
+      "--min-addresses <n>",
+      "Only list webhooks with at least n addresses"
+    )
+    .option(
+      "--max-addresses <n>",
+      "Only list webhooks with at most n addresses"
+    )
+    .addOption(
+      new Option("--sort <key>", "Sort webhooks by this key").choices(
+        WEBHOOK_SORT_KEYS
+      )
+    )
+    .option("--desc", "Sort in descending order")
+    .option("--limit <n>", "List at most n webhooks")
+    .action(async (options) => {
       try {
+        const filter = parseWebhookFilter(options);
+        const limit = parseLimit(options.limit);
+
         // Ensure configuration is set
         await ensureConfig();
 
+        const members = options.group
+          ? new Set(getWebhookGroup(options.group).webhookIDs)
+          : undefined;
+
         const spinner = ora("Fetching webhooks...").start();
 
-        const webhooks = await heliusApi.getAllWebhooks();
+        const all = await heliusApi.getAllWebhooks();
+        let webhooks = all.filter(
+          (webhook) =>
+            (!members || members.has(webhook.webhookID)) &&
+            matchesWebhookFilter(webhook, filter)
+        );
+
+        spinner.succeed(
+          webhooks.length === all.length
+            ? `Found ${webhooks.length} webhooks`
+            : `Found ${webhooks.length} of ${all.length} webhooks`
+        );
+
+        const stale = findStaleLabels(all.map((w) => w.webhookID));
+        if (stale.length > 0) {
+          info(
+            chalk.yellow(
+              `Labels pointing at webhooks that no longer exist: ${stale.join(
+                ", "
+              )} (see helius webhooks labels)`
+            )
+          );
+        }
 
-        spinner.succeed(`Found ${webhooks.length} webhooks`);
+        if (options.sort) {
+          webhooks = sortWebhooks(webhooks, options.sort, options.desc);
+        }
+        if (limit !== undefined && webhooks.length > limit) {
+          if (!isMachineOutput()) {
+            info(chalk.dim(`Showing the first ${limit}`));
+          }
+          webhooks = webhooks.slice(0, limit);
+        }
 
-        if (webhooks.length === 0) {
-          console.log(chalk.yellow("No webhooks found."));
+        if (webhooks.length === 0 && !isMachineOutput()) {
+          info(chalk.yellow("No webhooks found."));
           return;
         }
 
-        webhooks.forEach((webhook, index) => {
-          console.log(chalk.green(`\n--- Webhook ${index + 1} ---`));
-          console.log(formatWebhook(webhook));
-        });
+        printWebhooks(webhooks, labelsByWebhook());
       } catch (error) {
-        console.error(
-          chalk.red("Error fetching webhooks:"),
-          error instanceof Error ? error.message : error
-        );
-        process.exit(1);
+        exitWithError("Error fetching webhooks:", error);
       }
     });
 
   // Get webhook by ID
   webhooks
     .command("get <webhookID>")
-    .description("Get webhook by ID")
+    .description("Get webhook by ID, label or unique ID prefix")
     .action(async (webhookID: string) => {
       try {
         // Ensure configuration is set
         await ensureConfig();
 
+        webhookID = await resolveWebhookID(webhookID);
+
         const spinner = ora(`Fetching webhook ${webhookID}...`).start();
 
         const webhook = await heliusApi.getWebhook(webhookID);
 
         spinner.succeed(`Found webhook ${webhookID}`);
-        console.log(formatWebhook(webhook));
+        printWebhook(webhook, labelsByWebhook()[webhookID]);
       } catch (error) {
-        console.error(
-          chalk.red("Error fetching webhook:"),
-          error instanceof Error ? error.message : error
-        );
-        process.exit(1);
+        exitWithError("Error fetching webhook:", error);
       }
     });
 
   // Create a new webhook
-  webhooks
+  const create = webhooks
     .command("create")
     .description("Create a new webhook")
     .option(
@@ -167,104 +276,87 @@ export function registerWebhookCommands(program: Command): void {
       "--addresses <addresses>",
       "Account addresses to monitor (comma-separated list)"
     )
+    .option("--interactive", "Use interactive mode to create webhook")
+    .option("--skip-invalid", "Drop invalid addresses instead of aborting")
     .option(
-      "--collection <collectionAddress>",
-      "NFT collection address to track all NFTs from"
+      "--group <name>",
+      "Create a webhook group, split across webhooks by the address limit"
     )
-    .option("--interactive", "Use interactive mode to create webhook")
     .action(async (options) => {
       try {
         // Ensure configuration is set
         await ensureConfig();
 
+        if (options.group && loadWebhookGroups()[options.group]) {
+          fail(
+            `Webhook group ${options.group} already exists`,
+            "Use webhooks update --group to change it"
+          );
+        }
+
         let webhookData: Omit<Webhook, "webhookID">;
         let accountAddresses: string[] = [];
 
-        // Process collection address if provided
-        if (options.collection) {
-          const spinner = ora(
-            `Fetching NFTs from collection ${options.collection}...`
-          ).start();
+        // On-chain sources the addresses came from, recorded for `webhooks sync`
+        let trackedSources: TrackedSource[] = [];
+        let resolvedAddresses: string[] = [];
 
-          try {
-            const nftAddresses = await heliusApi.getNftAddressesFromCollection(
-              options.collection
-            );
-            spinner.succeed(
-              `Found ${nftAddresses.length} NFTs in collection ${options.collection}`
-            );
+        const limit = parseLimit(options.limit);
 
-            if (nftAddresses.length === 0) {
-              console.log(
-                chalk.yellow(
-                  "No NFTs found in the collection. Please check the collection address."
-                )
-              );
-            } else {
-              // Ask for confirmation before adding all NFT addresses
-              const { confirm } = await inquirer.prompt([
-                {
-                  type: "confirm",
-                  name: "confirm",
-                  message: `Do you want to add ${nftAddresses.length} NFT addresses from this collection to your webhook?`,
-                  default: true,
-                },
-              ]);
-
-              if (confirm) {
-                accountAddresses = nftAddresses;
-                console.log(
-                  chalk.green(
-                    `Added ${nftAddresses.length} NFT addresses to the webhook.`
-                  )
-                );
-              } else {
-                console.log(chalk.yellow("NFT addresses not added."));
-              }
-            }
-          } catch (error) {
-            spinner.fail(
-              `Failed to fetch NFTs from collection: ${
-                error instanceof Error ? error.message : error
-              }`
-            );
-            console.log(chalk.yellow("Continuing without collection NFTs..."));
+        // Resolve addresses from on-chain sources if any were given
+        const sources = parseAssetSources(options);
+        if (sources.length > 0) {
+          const filters = parseAssetFilters(options);
+          const assetAddresses = await resolveAssetSources(sources, {
+            network: webhookNetwork(options.type),
+            limit,
+            filters,
+            skipInvalid: options.skipInvalid,
+          });
+
+          if (await confirmAssetAddresses(assetAddresses)) {
+            accountAddresses = assetAddresses;
+            trackedSources = sources.map((source) => ({
+              ...source,
+              filters,
+              limit,
+            }));
+            resolvedAddresses = assetAddresses;
           }
         }
 
         if (options.interactive) {
           // Interactive mode
-          webhookData = await promptForWebhookData(accountAddresses);
+          const answers = await promptForWebhookData(accountAddresses, {
+            limit,
+            skipInvalid: options.skipInvalid,
+          });
+          webhookData = answers.webhookData;
+          if (answers.sources.length > 0) {
+            trackedSources = answers.sources;
+            resolvedAddresses = answers.resolved;
+          }
         } else {
           // Command line mode
           if (!options.url) {
-            console.error(
-              chalk.red(
-                "Error: Webhook URL is required for non-interactive mode"
-              )
+            fail(
+              "Webhook URL is required for non-interactive mode",
+              "Use --url option or --interactive mode"
             );
-            console.log("Use --url option or --interactive mode");
-            process.exit(1);
           }
 
           if (!options.type) {
-            console.error(
-              chalk.red(
-                "Error: Webhook type is required for non-interactive mode"
-              )
+            fail(
+              "Webhook type is required for non-interactive mode",
+              "Use --type option or --interactive mode"
             );
-            console.log("Use --type option or --interactive mode");
-            process.exit(1);
           }
 
           if (!options.types) {
-            console.error(
-              chalk.red(
-                "Error: Transaction types are required for non-interactive mode"
-              )
+            fail(
+              "Transaction types are required for non-interactive mode",
+              "Use --types option or --interactive mode"
             );
-            console.log("Use --types option or --interactive mode");
-            process.exit(1);
           }
 
           // Parse transaction types
@@ -272,68 +364,49 @@ export function registerWebhookCommands(program: Command): void {
             .split(",")
             .map((t: string) => t.trim().toUpperCase());
 
-          // Validate transaction types
-          for (const type of transactionTypes) {
-            if (!TRANSACTION_TYPES.includes(type)) {
-              console.error(
-                chalk.red(`Error: Invalid transaction type: ${type}`)
-              );
-              console.log(`Valid types are: ${TRANSACTION_TYPES.join(", ")}`);
-              process.exit(1);
-            }
-          }
+          // Check the type, transaction types, URL and status together
+          failOnRuleViolations(
+            findRuleViolations({
+              webhookURL: options.url,
+              webhookType: options.type,
+              transactionTypes,
+              txnStatus: options.status,
+            })
+          );
 
-          // If we have addresses from the collection, use them
+          // If we have addresses from on-chain sources, use them
           // Otherwise, require addresses from command line
           if (accountAddresses.length === 0) {
             if (!options.addresses) {
-              console.error(
-                chalk.red(
-                  "Error: Account addresses are required for non-interactive mode"
-                )
-              );
-              console.log(
-                "Use --addresses option, --collection option, or --interactive mode"
+              fail(
+                "Account addresses are required for non-interactive mode",
+                "Use --addresses, --collection, --creator, --authority, --owner or --interactive mode"
               );
-              process.exit(1);
             }
 
             // Parse account addresses from command line
-            accountAddresses = options.addresses
-              .split(",")
-              .map((a: string) => a.trim());
+            accountAddresses = validateAddresses(options.addresses.split(","), {
+              source: "--addresses",
+              skipInvalid: options.skipInvalid,
+            });
           } else if (options.addresses) {
-            // If we have both collection addresses and command line addresses, merge them
-            const additionalAddresses = options.addresses
-              .split(",")
-              .map((a: string) => a.trim());
+            // If we have both on-chain and command line addresses, merge them
+            const additionalAddresses = validateAddresses(
+              options.addresses.split(","),
+              { source: "--addresses", skipInvalid: options.skipInvalid }
+            );
 
-            accountAddresses = [...accountAddresses, ...additionalAddresses];
-            console.log(
+            accountAddresses = validateAddresses(
+              [...accountAddresses, ...additionalAddresses],
+              { source: "on-chain sources and --addresses" }
+            );
+            info(
               chalk.green(
                 `Added ${additionalAddresses.length} additional addresses from command line.`
               )
             );
           }
 
-          // Validate webhook type
-          if (!WEBHOOK_TYPES.includes(options.type)) {
-            console.error(
-              chalk.red(`Error: Invalid webhook type: ${options.type}`)
-            );
-            console.log(`Valid types are: ${WEBHOOK_TYPES.join(", ")}`);
-            process.exit(1);
-          }
-
-          // Validate transaction status if provided
-          if (options.status && !TXN_STATUS_OPTIONS.includes(options.status)) {
-            console.error(
-              chalk.red(`Error: Invalid transaction status: ${options.status}`)
-            );
-            console.log(`Valid options are: ${TXN_STATUS_OPTIONS.join(", ")}`);
-            process.exit(1);
-          }
-
           webhookData = {
             webhookURL: options.url,
             webhookType: options.type,
@@ -341,95 +414,524 @@ export function registerWebhookCommands(program: Command): void {
             accountAddresses,
             authHeader: options.authHeader,
             txnStatus: options.status ? options.status : undefined,
+            ...parseEncodingOptions(options),
           };
         }
 
+        // Split the addresses across a webhook group when one webhook cannot hold them
+        if (
+          options.group ||
+          webhookData.accountAddresses.length > getAddressLimit()
+        ) {
+          const name = options.group || generateGroupName();
+          const members = await createWebhookGroup(name, webhookData);
+
+          if (trackedSources.length > 0) {
+            recordWebhookSources(
+              groupSourcesKey(name),
+              trackedSources,
+              resolvedAddresses
+            );
+            info(
+              chalk.dim(
+                `Recorded the on-chain sources; run helius webhooks sync --group ${name} to pick up new assets`
+              )
+            );
+          }
+
+          info(
+            chalk.green(
+              `Webhook group ${name} created with ${members.length} webhooks`
+            )
+          );
+          printWebhooks(members);
+          return;
+        }
+
         const spinner = ora("Creating webhook...").start();
 
         const webhook = await heliusApi.createWebhook(webhookData);
 
         spinner.succeed("Webhook created successfully");
-        console.log(formatWebhook(webhook));
+
+        if (trackedSources.length > 0) {
+          recordWebhookSources(
+            webhook.webhookID,
+            trackedSources,
+            resolvedAddresses
+          );
+          info(
+            chalk.dim(
+              `Recorded the on-chain sources; run helius webhooks sync ${webhook.webhookID} to pick up new assets`
+            )
+          );
+        }
+
+        printWebhook(webhook);
       } catch (error) {
-        console.error(
-          chalk.red("Error creating webhook:"),
-          error instanceof Error ? error.message : error
+        exitWithError("Error creating webhook:", error);
+      }
+    });
+  addAssetSourceOptions(create);
+  addEncodingOptions(create);
+
+  // Update an existing webhook
+  const update = webhooks
+    .command("update [webhookID]")
+    .description("Update an existing webhook or webhook group")
+    .option("-u, --url <url>", "New webhook URL")
+    .option("-t, --type <type>", "New webhook type")
+    .option("-a, --auth-header <header>", "New authorization header")
+    .option(
+      "-s, --status <status>",
+      "New transaction status (all, success, failed)"
+    )
+    .option("--types <types>", "New transaction types (comma-separated list)")
+    .option("-f, --force", "Skip confirmation prompt")
+    .option("--skip-invalid", "Drop invalid addresses instead of aborting")
+    .option("--group <name>", "Update every webhook of a webhook group")
+    .action(async (webhookID: string | undefined, options) => {
+      try {
+        if (!webhookID && !options.group) {
+          fail("Specify a webhook ID or --group");
+        }
+        if (webhookID && options.group) {
+          fail("Specify either a webhook ID or --group, not both");
+        }
+
+        // Ensure configuration is set
+        await ensureConfig();
+
+        if (webhookID) {
+          webhookID = await resolveWebhookID(webhookID);
+        }
+
+        const target = options.group
+          ? `webhook group ${options.group}`
+          : `webhook ${webhookID}`;
+        const limit = parseLimit(options.limit);
+        const sources = parseAssetSources(options);
+        const changes: Partial<Omit<Webhook, "webhookID">> = {};
+
+        if (options.url !== undefined) {
+          changes.webhookURL = options.url;
+        }
+
+        if (options.type !== undefined) {
+          // Validate webhook type
+          if (!WEBHOOK_TYPES.includes(options.type)) {
+            fail(
+              `Invalid webhook type: ${options.type}`,
+              `Valid types are: ${WEBHOOK_TYPES.join(", ")}`
+            );
+          }
+          changes.webhookType = options.type;
+        }
+
+        if (options.types !== undefined) {
+          // Parse transaction types
+          const transactionTypes = options.types
+            .split(",")
+            .map((t: string) => t.trim().toUpperCase());
+
+          // Validate transaction types
+          for (const type of transactionTypes) {
+            if (!TRANSACTION_TYPES.includes(type)) {
+              fail(
+                `Invalid transaction type: ${type}`,
+                `Valid types are: ${TRANSACTION_TYPES.join(", ")}`
+              );
+            }
+          }
+          changes.transactionTypes = transactionTypes;
+        }
+
+        if (options.authHeader !== undefined) {
+          changes.authHeader = options.authHeader;
+        }
+
+        if (options.status !== undefined) {
+          // Validate transaction status
+          if (!TXN_STATUS_OPTIONS.includes(options.status)) {
+            fail(
+              `Invalid transaction status: ${options.status}`,
+              `Valid options are: ${TXN_STATUS_OPTIONS.join(", ")}`
+            );
+          }
+          changes.txnStatus = options.status;
+        }
+
+        if (
+          Object.keys(changes).length === 0 &&
+          Object.keys(parseEncodingOptions(options)).length === 0 &&
+          sources.length === 0
+        ) {
+          fail(
+            "No changes specified",
+            "Use --url, --type, --types, --auth-header, --status, --encoding, --format, --compression or an on-chain source (--collection, --creator, --authority, --owner) to update the webhook"
+          );
+        }
+
+        // A group is compared as one webhook holding all of its addresses
+        let members: Webhook[];
+        if (options.group) {
+          members = await fetchGroupMembers(options.group);
+        } else {
+          const fetchSpinner = ora(`Fetching webhook ${webhookID}...`).start();
+          members = [await heliusApi.getWebhook(webhookID!)];
+          fetchSpinner.succeed(`Found webhook ${webhookID}`);
+        }
+        const current: Webhook = {
+          ...members[0],
+          accountAddresses: members.flatMap((m) => m.accountAddresses),
+        };
+
+        // Encoding config fields that are not given keep their current value
+        Object.assign(
+          changes,
+          parseEncodingOptions(options, current.encoding_config)
         );
-        process.exit(1);
+
+        // Merge the given fields into the current webhook
+        const { webhookID: _, ...currentData } = current;
+        const updated: Omit<Webhook, "webhookID"> = {
+          ...currentData,
+          ...changes,
+        };
+
+        // Add addresses resolved from on-chain sources to the current list
+        const filters = parseAssetFilters(options);
+        let assetAddresses: string[] = [];
+        if (sources.length > 0) {
+          assetAddresses = await resolveAssetSources(sources, {
+            network: webhookNetwork(updated.webhookType),
+            limit,
+            filters,
+            skipInvalid: options.skipInvalid,
+          });
+          const existing = new Set(current.accountAddresses);
+          updated.accountAddresses = [
+            ...current.accountAddresses,
+            ...assetAddresses.filter((address) => !existing.has(address)),
+          ];
+        }
+
+        // Record the sources for `webhooks sync` once they are on the webhook
+        const recordSources = () => {
+          if (sources.length > 0) {
+            recordWebhookSources(
+              options.group ? groupSourcesKey(options.group) : webhookID!,
+              sources.map((source) => ({ ...source, filters, limit })),
+              assetAddresses
+            );
+          }
+        };
+
+        // Rules span fields, so check the merged webhook when one of them changes
+        if (
+          changes.webhookURL !== undefined ||
+          changes.webhookType !== undefined ||
+          changes.transactionTypes !== undefined ||
+          changes.encoding !== undefined ||
+          changes.encoding_config !== undefined
+        ) {
+          failOnRuleViolations(findRuleViolations(updated));
+        }
+
+        const diff = formatWebhookDiff(current, updated);
+
+        if (diff === "") {
+          recordSources();
+          info(chalk.yellow("Webhook already matches, nothing to update"));
+          return;
+        }
+
+        if (
+          !options.group &&
+          updated.accountAddresses.length > getAddressLimit()
+        ) {
+          fail(
+            `Webhook ${webhookID} would monitor ${
+              updated.accountAddresses.length
+            } addresses, more than the limit of ${getAddressLimit()} per webhook`,
+            "Create a webhook group with webhooks create --group to monitor more addresses"
+          );
+        }
+
+        info(chalk.bold("\nChanges:"));
+        info(diff);
+
+        // Confirm update unless force option is used
+        if (!options.force) {
+          const confirm = await confirmPrompt(
+            `Apply these changes to ${target}?`,
+            false
+          );
+
+          if (!confirm) {
+            info(chalk.yellow("Update cancelled"));
+            return;
+          }
+        }
+
+        if (options.group) {
+          const updatedMembers = await applyGroupAddresses(
+            options.group,
+            members,
+            updated.accountAddresses,
+            changes
+          );
+          info(chalk.green(`Webhook group ${options.group} updated`));
+          recordSources();
+          printWebhooks(updatedMembers, labelsByWebhook());
+          return;
+        }
+
+        const spinner = ora(`Updating webhook ${webhookID}...`).start();
+
+        const webhook = await heliusApi.updateWebhook(webhookID!, updated);
+
+        spinner.succeed("Webhook updated successfully");
+        recordSources();
+        printWebhook(webhook, labelsByWebhook()[webhook.webhookID]);
+      } catch (error) {
+        exitWithError("Error updating webhook:", error);
       }
     });
+  addAssetSourceOptions(update);
+  addEncodingOptions(update);
 
-  // Delete webhook by ID
+  // Delete webhook by ID, or a whole webhook group
   webhooks
-    .command("delete <webhookID>")
-    .description("Delete webhook by ID")
+    .command("delete [webhookID]")
+    .description("Delete webhook by ID, label or unique ID prefix")
     .option("-f, --force", "Skip confirmation prompt")
-    .action(async (webhookID: string, options) => {
+    .option("--group <name>", "Delete every webhook of a webhook group")
+    .action(async (webhookID: string | undefined, options) => {
       try {
+        if (!webhookID && !options.group) {
+          fail("Specify a webhook ID or --group");
+        }
+        if (webhookID && options.group) {
+          fail("Specify either a webhook ID or --group, not both");
+        }
+
         // Ensure configuration is set
         await ensureConfig();
 
+        if (webhookID) {
+          webhookID = await resolveWebhookID(webhookID);
+        }
+
+        const ids = options.group
+          ? getWebhookGroup(options.group).webhookIDs
+          : [webhookID!];
+        const target = options.group
+          ? `webhook group ${options.group} (${ids.length} webhooks)`
+          : `webhook ${webhookID}`;
+
         // Confirm deletion unless force option is used
         if (!options.force) {
-          const { confirm } = await inquirer.prompt([
-            {
-              type: "confirm",
-              name: "confirm",
-              message: `Are you sure you want to delete webhook ${webhookID}?`,
-              default: false,
-            },
-          ]);
+          const confirm = await confirmPrompt(
+            `Are you sure you want to delete ${target}?`,
+            false
+          );
 
           if (!confirm) {
-            console.log(chalk.yellow("Deletion cancelled"));
+            info(chalk.yellow("Deletion cancelled"));
             return;
           }
         }
 
-        const spinner = ora(`Deleting webhook ${webhookID}...`).start();
+        const results: { webhookID: string; success: boolean }[] = [];
 
-        const result = await heliusApi.deleteWebhook(webhookID);
+        for (const id of ids) {
+          const spinner = ora(`Deleting webhook ${id}...`).start();
 
-        if (result.success) {
-          spinner.succeed(`Successfully deleted webhook ${webhookID}`);
-        } else {
-          spinner.fail(`Failed to delete webhook ${webhookID}`);
+          let success: boolean;
+          try {
+            success = (await heliusApi.deleteWebhook(id)).success;
+            if (success) {
+              spinner.succeed(`Successfully deleted webhook ${id}`);
+            } else {
+              spinner.fail(`Failed to delete webhook ${id}`);
+            }
+          } catch (error) {
+            if (!options.group) {
+              spinner.fail(`Failed to delete webhook ${id}`);
+              throw error;
+            }
+            // A group member that is already gone counts as deleted
+            if (error instanceof HeliusApiError && error.kind === "not-found") {
+              success = true;
+              spinner.warn(`Webhook ${id} was already deleted`);
+            } else {
+              success = false;
+              spinner.fail(
+                `Failed to delete webhook ${id}: ${
+                  error instanceof Error ? error.message : error
+                }`
+              );
+            }
+          }
+          results.push({ webhookID: id, success });
+
+          if (success) {
+            forgetWebhookSources(id);
+            forgetWebhookLabels(id);
+
+            // Keep the group in line with its remaining webhooks
+            const group = options.group || findWebhookGroup(id);
+            if (group) {
+              const remaining = getWebhookGroup(group).webhookIDs.filter(
+                (w) => w !== id
+              );
+              if (remaining.length > 0) {
+                recordWebhookGroup(group, remaining);
+              } else {
+                forgetWebhookGroup(group);
+                forgetWebhookSources(groupSourcesKey(group));
+              }
+            }
+          }
+        }
+
+        if (isMachineOutput()) {
+          printData(options.group ? results : results[0]);
+        }
+
+        if (results.some((r) => !r.success)) {
+          process.exit(1);
         }
       } catch (error) {
-        console.error(
-          chalk.red("Error deleting webhook:"),
-          error instanceof Error ? error.message : error
-        );
-        process.exit(1);
+        exitWithError("Error deleting webhook:", error);
       }
     });
 }
 
+/**
+ * Split a comma-separated address answer into addresses
+ * @param input Prompt answer
+ * @returns Trimmed, non-empty addresses
+ */
+function parseAddressInput(input: string | string[]): string[] {
+  return (Array.isArray(input) ? input : input.split(","))
+    .map((a) => a.trim())
+    .filter((a) => a !== "");
+}
+
+/**
+ * Validate a comma-separated address answer
+ * @param input Prompt answer
+ * @param required Whether at least one address is required
+ * @returns True, or an error message naming each invalid address
+ */
+function validateAddressInput(
+  input: string | string[],
+  required: boolean
+): true | string {
+  const addresses = parseAddressInput(input);
+
+  if (addresses.length === 0) {
+    return required ? "At least one account address is required" : true;
+  }
+
+  const invalid = findInvalidAddresses(addresses);
+  return invalid.length === 0
+    ? true
+    : `Invalid addresses:\n${formatInvalidAddresses(invalid)}`;
+}
+
+/**
+ * Add the payload encoding options to a command
+ * @param command Commander command
+ */
+function addEncodingOptions(command: Command): void {
+  command
+    .addOption(
+      new Option(
+        "--encoding <encoding>",
+        "Transaction encoding of deliveries"
+      ).choices(ENCODING_OPTIONS)
+    )
+    .addOption(
+      new Option("--format <format>", "Delivery body format").choices(
+        ENCODING_FORMATS
+      )
+    )
+    .addOption(
+      new Option("--compression <compression>", "Delivery compression").choices(
+        COMPRESSION_OPTIONS
+      )
+    );
+}
+
+/**
+ * Build the encoding fields of a webhook from command options
+ * @param options Command options
+ * @param current Current encoding config, whose fields are kept unless given
+ * @returns Encoding fields to set, empty if no encoding option was given
+ */
+function parseEncodingOptions(
+  options: { encoding?: string; format?: string; compression?: string },
+  current?: Webhook["encoding_config"]
+): Pick<Webhook, "encoding" | "encoding_config"> {
+  const data: Pick<Webhook, "encoding" | "encoding_config"> = {};
+  if (options.encoding) {
+    data.encoding = options.encoding;
+  }
+  if (options.format || options.compression) {
+    data.encoding_config = {
+      format: options.format || current?.format || "json",
+      compression: options.compression || current?.compression || "none",
+    };
+  }
+  return data;
+}
+
 /**
  * Prompt user for webhook data in interactive mode
  * @param prefilledAddresses Optional array of addresses to prefill
- * @returns Webhook data
+ * @param options Per-source lookup limit, and whether to drop invalid on-chain addresses instead of failing
+ * @returns Webhook data, and the on-chain sources its addresses came from
  */
 async function promptForWebhookData(
-  prefilledAddresses: string[] = []
-): Promise<Omit<Webhook, "webhookID">> {
-  console.log(chalk.bold("\nCreate a new webhook:"));
+  prefilledAddresses: string[] = [],
+  options: { limit?: number; skipInvalid?: boolean } = {}
+): Promise<{
+  webhookData: Omit<Webhook, "webhookID">;
+  sources: TrackedSource[];
+  resolved: string[];
+}> {
+  requireInput(
+    "webhook details",
+    "Pass --url, --type, --types and --addresses instead of --interactive"
+  );
+
+  info(chalk.bold("\nCreate a new webhook:"));
 
   // Prepare basic questions
   const basicQuestions: any[] = [
-    {
-      type: "input",
-      name: "webhookURL",
-      message: "Enter the webhook URL:",
-      validate: (input: string) =>
-        input.trim() !== "" ? true : "Webhook URL is required",
-    },
     {
       type: "list",
       name: "webhookType",
       message: "Select the webhook type:",
       choices: WEBHOOK_TYPES,
     },
+    {
+      type: "input",
+      name: "webhookURL",
+      message: (answers: any) =>
+        answers.webhookType.startsWith("discord")
+          ? "Enter the Discord webhook URL:"
+          : "Enter the webhook URL:",
+      filter: (input: string) => input.trim(),
+      validate: (input: string, answers: any) => {
+        if (input === "") return "Webhook URL is required";
+        const violation = checkWebhookURL(answers.webhookType, input);
+        return violation ? violation.message : true;
+      },
+    },
     {
       type: "input",
       name: "authHeader",
@@ -446,98 +948,127 @@ async function promptForWebhookData(
       type: "checkbox",
       name: "transactionTypes",
       message: "Select transaction types to monitor:",
-      choices: TRANSACTION_TYPES,
-      validate: (input: any) =>
-        input.length > 0 ? true : "At least one transaction type is required",
+      choices: (answers: any) => allowedTransactionTypes(answers.webhookType),
+      validate: (input: string[], answers: any) => {
+        const violation = checkTransactionTypes(answers.webhookType, input);
+        return violation
+          ? [violation.message, violation.hint].filter(Boolean).join(". ")
+          : true;
+      },
     },
   ];
 
   // Get basic information first
   const basicAnswers = await inquirer.prompt(basicQuestions);
 
-  // Handle collection address if no addresses are prefilled
-  let useCollection = false;
-  let collectionAddress = "";
+  // Payload encoding is optional, so only ask for it on request
+  const encodingAnswers = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "configure",
+      message: "Configure payload encoding and compression?",
+      default: false,
+    },
+    {
+      type: "list",
+      name: "encoding",
+      message: "Transaction encoding:",
+      choices: ENCODING_OPTIONS,
+      when: (answers: any) => answers.configure,
+    },
+    {
+      type: "list",
+      name: "format",
+      message: "Delivery body format:",
+      choices: ENCODING_FORMATS,
+      when: (answers: any) => answers.configure,
+    },
+    {
+      type: "list",
+      name: "compression",
+      message: "Compression:",
+      choices: COMPRESSION_OPTIONS,
+      default: "none",
+      when: (answers: any) => answers.configure,
+    },
+  ]);
+
+  // Ask for on-chain sources if no addresses are prefilled
+  const sources: AssetSource[] = [];
+  let filters = DEFAULT_ASSET_FILTERS;
 
   if (prefilledAddresses.length === 0) {
-    const collectionQuestion = await inquirer.prompt([
+    const { kinds } = await inquirer.prompt([
       {
-        type: "confirm",
-        name: "useCollection",
-        message: "Do you want to track NFTs from a collection?",
-        default: false,
+        type: "checkbox",
+        name: "kinds",
+        message: "Track assets from on-chain data? (select none to skip)",
+        choices: ASSET_SOURCE_KINDS.map((kind) => ({
+          name: ASSET_SOURCE_LABELS[kind],
+          value: kind,
+        })),
       },
     ]);
 
-    useCollection = collectionQuestion.useCollection;
-
-    if (useCollection) {
-      const collectionAddressQuestion = await inquirer.prompt([
+    for (const kind of kinds as AssetSourceKind[]) {
+      const { addresses } = await inquirer.prompt([
         {
           type: "input",
-          name: "collectionAddress",
-          message: "Enter the collection address:",
-          validate: (input: string) =>
-            input.trim() !== "" ? true : "Collection address is required",
+          name: "addresses",
+          message: `Enter the ${kind} addresses (comma-separated):`,
+          validate: (input: string | string[]) =>
+            validateAddressInput(input, true),
+          filter: (input: string) => parseAddressInput(input),
         },
       ]);
+      sources.push(
+        ...(addresses as string[]).map((address) => ({ kind, address }))
+      );
+    }
 
-      collectionAddress = collectionAddressQuestion.collectionAddress;
+    if (sources.length > 0) {
+      filters = await inquirer.prompt<AssetFilters>([
+        {
+          type: "list",
+          name: "compressed",
+          message: "Compressed NFTs:",
+          choices: [
+            { name: "Include", value: "include" },
+            { name: "Exclude", value: "exclude" },
+            { name: "Only compressed NFTs", value: "only" },
+          ],
+          default: "include",
+        },
+        {
+          type: "list",
+          name: "burnt",
+          message: "Burnt assets:",
+          choices: [
+            { name: "Include", value: "include" },
+            { name: "Exclude", value: "exclude" },
+          ],
+          default: "include",
+        },
+      ]);
     }
   }
 
-  // Process collection address if provided
+  // Resolve on-chain sources if any were chosen
   let accountAddresses = [...prefilledAddresses];
-  let collectionAddressesAdded = false;
-
-  if (useCollection && collectionAddress) {
-    const spinner = ora(
-      `Fetching NFTs from collection ${collectionAddress}...`
-    ).start();
+  let assetAddresses: string[] = [];
+  let assetAddressesAdded = false;
 
-    try {
-      const nftAddresses = await heliusApi.getNftAddressesFromCollection(
-        collectionAddress
-      );
-      spinner.succeed(
-        `Found ${nftAddresses.length} NFTs in collection ${collectionAddress}`
-      );
+  if (sources.length > 0) {
+    assetAddresses = await resolveAssetSources(sources, {
+      network: webhookNetwork(basicAnswers.webhookType),
+      limit: options.limit,
+      filters,
+      skipInvalid: options.skipInvalid,
+    });
 
-      if (nftAddresses.length === 0) {
-        console.log(
-          chalk.yellow(
-            "No NFTs found in the collection. Please check the collection address."
-          )
-        );
-      } else {
-        // Ask for confirmation before adding all NFT addresses
-        const { confirm } = await inquirer.prompt([
-          {
-            type: "confirm",
-            name: "confirm",
-            message: `Do you want to add ${nftAddresses.length} NFT addresses from this collection to your webhook?`,
-            default: true,
-          },
-        ]);
-
-        if (confirm) {
-          accountAddresses = [...accountAddresses, ...nftAddresses];
-          collectionAddressesAdded = true;
-          console.log(
-            chalk.green(
-              `Added ${nftAddresses.length} NFT addresses from collection to the webhook.`
-            )
-          );
-        } else {
-          console.log(chalk.yellow("NFT addresses from collection not added."));
-        }
-      }
-    } catch (error) {
-      spinner.fail(
-        `Failed to fetch NFTs from collection: ${
-          error instanceof Error ? error.message : error
-        }`
-      );
+    if (await confirmAssetAddresses(assetAddresses)) {
+      accountAddresses = [...accountAddresses, ...assetAddresses];
+      assetAddressesAdded = true;
     }
   }
 
@@ -545,12 +1076,12 @@ async function promptForWebhookData(
   const addressPromptMessage =
     prefilledAddresses.length > 0
       ? "Enter additional account addresses to monitor (comma-separated, optional):"
-      : collectionAddressesAdded
+      : assetAddressesAdded
       ? "Enter additional account addresses to monitor (comma-separated, optional):"
       : "Enter account addresses to monitor (comma-separated):";
 
   const addressRequired = !(
-    prefilledAddresses.length > 0 || collectionAddressesAdded
+    prefilledAddresses.length > 0 || assetAddressesAdded
   );
 
   const addressQuestion = await inquirer.prompt([
@@ -558,16 +1089,9 @@ async function promptForWebhookData(
       type: "input",
       name: "accountAddresses",
       message: addressPromptMessage,
-      validate: (input: string) => {
-        if (!addressRequired) {
-          return true;
-        }
-        return input.trim() !== ""
-          ? true
-          : "At least one account address is required";
-      },
-      filter: (input: string) =>
-        input ? input.split(",").map((a: string) => a.trim()) : [],
+      validate: (input: string | string[]) =>
+        validateAddressInput(input, addressRequired),
+      filter: (input: string) => (input ? parseAddressInput(input) : []),
     },
   ]);
 
@@ -580,7 +1104,7 @@ async function promptForWebhookData(
       ...accountAddresses,
       ...addressQuestion.accountAddresses,
     ];
-    console.log(
+    info(
       chalk.green(
         `Added ${addressQuestion.accountAddresses.length} additional addresses from input.`
       )
@@ -589,23 +1113,26 @@ async function promptForWebhookData(
 
   // If we still have no addresses, prompt again
   if (accountAddresses.length === 0) {
-    console.log(chalk.red("Error: At least one account address is required."));
+    info(chalk.red("Error: At least one account address is required."));
     const { additionalAddresses } = await inquirer.prompt([
       {
         type: "input",
         name: "additionalAddresses",
         message: "Enter account addresses to monitor (comma-separated):",
-        validate: (input) =>
-          input.trim() !== ""
-            ? true
-            : "At least one account address is required",
-        filter: (input) => input.split(",").map((a: string) => a.trim()),
+        validate: (input: string | string[]) =>
+          validateAddressInput(input, true),
+        filter: (input: string) => parseAddressInput(input),
       },
     ]);
 
     accountAddresses = additionalAddresses;
   }
 
+  // Collapse duplicates across the on-chain and typed addresses
+  accountAddresses = validateAddresses(accountAddresses, {
+    source: "account addresses",
+  });
+
   // Handle txnStatus special case
   const txnStatus =
     basicAnswers.txnStatus === "Skip (don't filter by status)"
@@ -613,12 +1140,19 @@ async function promptForWebhookData(
       : [basicAnswers.txnStatus];
 
   return {
-    webhookURL: basicAnswers.webhookURL,
-    webhookType: basicAnswers.webhookType,
-    authHeader: basicAnswers.authHeader || undefined,
-    txnStatus: basicAnswers.txnStatus,
-    transactionTypes: basicAnswers.transactionTypes,
-    accountAddresses,
+    webhookData: {
+      webhookURL: basicAnswers.webhookURL,
+      webhookType: basicAnswers.webhookType,
+      authHeader: basicAnswers.authHeader || undefined,
+      txnStatus: basicAnswers.txnStatus,
+      transactionTypes: basicAnswers.transactionTypes,
+      accountAddresses,
+      ...parseEncodingOptions(encodingAnswers),
+    },
+    sources: assetAddressesAdded
+      ? sources.map((source) => ({ ...source, filters, limit: options.limit }))
+      : [],
+    resolved: assetAddressesAdded ? assetAddresses : [],
   };
 }
 
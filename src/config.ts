@@ -4,61 +4,279 @@ import * as os from "os";
 import inquirer from "inquirer";
 import chalk from "chalk";
 import dotenv from "dotenv";
+import {
+  DEFAULT_BASE_URL,
+  DEFAULT_DEVNET_RPC_URL,
+  DEFAULT_RPC_URL,
+} from "./client";
+import { PRIVATE_FILE_MODE } from "./constants";
+import { info } from "./output";
+import { requireInput } from "./prompt";
+import { decryptSecret, encryptSecret, isEncrypted } from "./secrets";
 
 // Load environment variables from .env file if present
 dotenv.config();
 
 // Define the type for our configuration
-interface ConfigType {
+export interface ConfigType {
   apiKey: string;
   baseUrl: string;
+  rpcUrl: string;
+  devnetRpcUrl: string;
+  addressLimit: string;
 }
 
 // Default configuration
 const defaultConfig: ConfigType = {
   apiKey: process.env.HELIUS_API_KEY || "",
-  baseUrl: process.env.HELIUS_BASE_URL || "https://api.helius.xyz/v0",
+  baseUrl: process.env.HELIUS_BASE_URL || DEFAULT_BASE_URL,
+  rpcUrl: process.env.HELIUS_RPC_URL || DEFAULT_RPC_URL,
+  devnetRpcUrl: process.env.HELIUS_DEVNET_RPC_URL || DEFAULT_DEVNET_RPC_URL,
+  addressLimit: process.env.HELIUS_ADDRESS_LIMIT || "100000",
 };
 
+// Name of a configuration value
+export type ConfigKey = keyof ConfigType;
+
+// Keys that can be changed with `config set`
+export const CONFIG_KEYS: ConfigKey[] = [
+  "apiKey",
+  "baseUrl",
+  "rpcUrl",
+  "devnetRpcUrl",
+  "addressLimit",
+];
+
+/**
+ * Checks whether a string is a key that can be changed with `config set`
+ * @param key Key to check
+ * @returns True for a configuration key
+ */
+export function isConfigKey(key: string): key is ConfigKey {
+  return (CONFIG_KEYS as string[]).includes(key);
+}
+
 // Path to the config file
-const CONFIG_DIR = path.join(os.homedir(), ".helius-cli");
+export const CONFIG_DIR = path.join(os.homedir(), ".helius-cli");
 const CONFIG_PATH = path.join(CONFIG_DIR, "config.json");
 
-// Ensure config directory exists
-if (!fs.existsSync(CONFIG_DIR)) {
-  fs.mkdirSync(CONFIG_DIR, { recursive: true });
+/**
+ * Creates the config directory if it does not exist yet
+ * Called before writing, so that reading the config has no side effects
+ */
+export function ensureConfigDir(): void {
+  if (!fs.existsSync(CONFIG_DIR)) {
+    fs.mkdirSync(CONFIG_DIR, { recursive: true });
+  }
+}
+
+// Name of the profile created for new and migrated config files
+export const DEFAULT_PROFILE = "default";
+
+// Define the type for the config file, which holds named profiles
+interface ConfigFileType {
+  activeProfile: string;
+  profiles: Record<string, ConfigType>;
+  // Whether the API keys of all profiles are encrypted with a passphrase
+  encrypted?: boolean;
 }
 
-// Load configuration
-function loadConfig(): ConfigType {
+// Load the config file, migrating single-profile files to the profile format
+function loadConfigFile(): ConfigFileType {
   try {
     if (fs.existsSync(CONFIG_PATH)) {
-      const configData = fs.readFileSync(CONFIG_PATH, "utf8");
-      return { ...defaultConfig, ...JSON.parse(configData) };
+      const configData = JSON.parse(fs.readFileSync(CONFIG_PATH, "utf8"));
+
+      if (configData.profiles) {
+        return {
+          activeProfile: configData.activeProfile || DEFAULT_PROFILE,
+          profiles: configData.profiles,
+          encrypted: Boolean(configData.encrypted),
+        };
+      }
+
+      // Migrate a single-profile config file
+      const migrated: ConfigFileType = {
+        activeProfile: DEFAULT_PROFILE,
+        profiles: { [DEFAULT_PROFILE]: { ...defaultConfig, ...configData } },
+      };
+      saveConfigFile(migrated);
+      return migrated;
     }
   } catch (error) {
     console.error("Error loading config:", error);
   }
-  return { ...defaultConfig };
+  return { activeProfile: DEFAULT_PROFILE, profiles: {} };
 }
 
-// Save configuration
-function saveConfig(config: ConfigType): void {
+// Save the config file, readable by its owner only
+function saveConfigFile(file: ConfigFileType): void {
   try {
-    fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
+    ensureConfigDir();
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify(file, null, 2), {
+      mode: PRIVATE_FILE_MODE,
+    });
+    // The mode only applies to new files, so tighten existing ones too
+    fs.chmodSync(CONFIG_PATH, PRIVATE_FILE_MODE);
   } catch (error) {
     console.error("Error saving config:", error);
   }
 }
 
+// Encrypt an API key for storage if the config file is encrypted
+function sealApiKey(apiKey: string): string {
+  if (!configFile.encrypted || apiKey === "" || isEncrypted(apiKey)) {
+    return apiKey;
+  }
+  if (!passphrase) {
+    throw new Error(
+      "The configuration is encrypted; unlock it before saving an API key"
+    );
+  }
+  return encryptSecret(apiKey, passphrase);
+}
+
+// Save configuration for the selected profile
+function saveConfig(config: ConfigType): void {
+  configFile.profiles[selectedProfile] = {
+    ...config,
+    apiKey: sealApiKey(config.apiKey),
+  };
+  saveConfigFile(configFile);
+}
+
+// Load the configuration of a profile, decrypting its API key once unlocked
+function loadProfileConfig(name: string): ConfigType {
+  const config = { ...defaultConfig, ...configFile.profiles[name] };
+  if (passphrase && isEncrypted(config.apiKey)) {
+    config.apiKey = decryptSecret(config.apiKey, passphrase);
+  }
+  return config;
+}
+
+// Current config file
+const configFile = loadConfigFile();
+
+// Passphrase of an encrypted config file, once unlocked
+let passphrase: string | undefined;
+
+// Profile used by this run: HELIUS_PROFILE, or the active profile
+let selectedProfile = process.env.HELIUS_PROFILE || configFile.activeProfile;
+
 // Current configuration
-let currentConfig = loadConfig();
+let currentConfig: ConfigType = loadProfileConfig(selectedProfile);
+
+/**
+ * Reads the config passphrase from HELIUS_CONFIG_PASSPHRASE or a prompt
+ * @param {boolean} confirm Ask for the passphrase twice, for new passphrases
+ * @returns {Promise<string>} The passphrase
+ */
+async function readPassphrase(confirm = false): Promise<string> {
+  if (process.env.HELIUS_CONFIG_PASSPHRASE) {
+    return process.env.HELIUS_CONFIG_PASSPHRASE;
+  }
+  requireInput("config passphrase", "Set HELIUS_CONFIG_PASSPHRASE");
+
+  const { value } = await inquirer.prompt([
+    {
+      type: "password",
+      name: "value",
+      mask: "*",
+      message: "Enter the config passphrase:",
+      validate: (input: string) =>
+        input !== "" ? true : "Passphrase cannot be empty",
+    },
+  ]);
+
+  if (confirm) {
+    const { repeated } = await inquirer.prompt([
+      {
+        type: "password",
+        name: "repeated",
+        mask: "*",
+        message: "Repeat the config passphrase:",
+      },
+    ]);
+    if (repeated !== value) {
+      throw new Error("Passphrases do not match");
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Unlocks an encrypted configuration, decrypting the API key of the selected profile
+ * Does nothing if the configuration is not encrypted or already unlocked
+ */
+export async function unlockConfig(): Promise<void> {
+  if (!configFile.encrypted || passphrase) {
+    return;
+  }
+
+  const candidate = await readPassphrase();
+
+  // Check the passphrase against any stored key before accepting it
+  const sample = Object.values(configFile.profiles)
+    .map((profile) => profile.apiKey)
+    .find(isEncrypted);
+  if (sample) {
+    decryptSecret(sample, candidate);
+  }
+
+  passphrase = candidate;
+  currentConfig = loadProfileConfig(selectedProfile);
+}
+
+/**
+ * Checks whether the stored API keys are encrypted
+ * @returns {boolean} True if the config file is encrypted
+ */
+export function isConfigEncrypted(): boolean {
+  return Boolean(configFile.encrypted);
+}
+
+/**
+ * Encrypts the API keys of all profiles with a new passphrase
+ */
+export async function encryptConfig(): Promise<void> {
+  if (configFile.encrypted) {
+    throw new Error("The configuration is already encrypted");
+  }
+
+  passphrase = await readPassphrase(true);
+  configFile.encrypted = true;
+  for (const profile of Object.values(configFile.profiles)) {
+    profile.apiKey = sealApiKey(profile.apiKey);
+  }
+  saveConfigFile(configFile);
+}
+
+/**
+ * Decrypts the API keys of all profiles and stores them in plain text again
+ */
+export async function decryptConfig(): Promise<void> {
+  if (!configFile.encrypted) {
+    throw new Error("The configuration is not encrypted");
+  }
+
+  await unlockConfig();
+  for (const profile of Object.values(configFile.profiles)) {
+    if (isEncrypted(profile.apiKey)) {
+      profile.apiKey = decryptSecret(profile.apiKey, passphrase!);
+    }
+  }
+  configFile.encrypted = false;
+  saveConfigFile(configFile);
+}
 
 /**
  * Ensures that the configuration has all required values
  * @returns {Promise<boolean>} True if configuration is valid
  */
 export async function ensureConfig(): Promise<boolean> {
+  await unlockConfig();
+
   const missingValues: string[] = [];
 
   if (!currentConfig.apiKey) missingValues.push("apiKey");
@@ -67,7 +285,12 @@ export async function ensureConfig(): Promise<boolean> {
     return true;
   }
 
-  console.log(
+  requireInput(
+    missingValues.join(", "),
+    "Set HELIUS_API_KEY, or run helius config set apiKey <key>"
+  );
+
+  info(
     chalk.yellow("Some configuration values are missing. Let's set them up:")
   );
 
@@ -98,7 +321,7 @@ export async function ensureConfig(): Promise<boolean> {
   // Save the updated config
   saveConfig(currentConfig);
 
-  console.log(chalk.green("Configuration updated successfully!"));
+  info(chalk.green("Configuration updated successfully!"));
   return true;
 }
 
@@ -110,27 +333,163 @@ export function getConfig(): ConfigType {
   return { ...currentConfig };
 }
 
+/**
+ * Gets the maximum number of addresses a single webhook accepts
+ * @returns {number} The configured address limit
+ */
+export function getAddressLimit(): number {
+  const limit = parseInt(currentConfig.addressLimit, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(
+      `Invalid addressLimit: ${currentConfig.addressLimit} (expected a positive number)`
+    );
+  }
+  return limit;
+}
+
 /**
  * Sets a configuration value
- * @param {keyof ConfigType} key The configuration key
+ * @param {ConfigKey} key The configuration key
  * @param {string} value The value to set
  */
-export function setConfig(key: keyof ConfigType, value: string): void {
+export function setConfig(key: ConfigKey, value: string): void {
   currentConfig[key] = value;
   saveConfig(currentConfig);
 }
 
 /**
- * Resets the configuration to default values
+ * Resets the configuration of the selected profile to default values
  */
 export function resetConfig(): void {
   currentConfig = { ...defaultConfig };
   saveConfig(currentConfig);
 }
 
+/**
+ * Checks whether a profile can be selected
+ * The active profile counts before it is saved, so a first run can set it up
+ * @param {string} name The profile name
+ * @returns {boolean} True if the profile exists
+ */
+export function profileExists(name: string): boolean {
+  return (
+    Boolean(configFile.profiles[name]) || name === configFile.activeProfile
+  );
+}
+
+/**
+ * Selects the profile used for the rest of this run without saving it
+ * @param {string} name The profile name
+ */
+export function selectProfile(name: string): void {
+  if (!profileExists(name)) {
+    throw new Error(`Profile ${name} does not exist`);
+  }
+  selectedProfile = name;
+  currentConfig = loadProfileConfig(name);
+}
+
+/**
+ * Gets the name of the profile used by this run
+ * @returns {string} The selected profile name
+ */
+export function getProfileName(): string {
+  return selectedProfile;
+}
+
+/**
+ * Gets the name of the saved active profile
+ * @returns {string} The active profile name
+ */
+export function getActiveProfile(): string {
+  return configFile.activeProfile;
+}
+
+/**
+ * Lists all saved profiles
+ * @returns {Record<string, ConfigType>} Profiles by name
+ */
+export function getProfiles(): Record<string, ConfigType> {
+  return { ...configFile.profiles };
+}
+
+/**
+ * Gets the configuration of a saved profile
+ * The API key is decrypted if the configuration has been unlocked
+ * @param {string} name The profile name
+ * @returns {ConfigType} The profile configuration
+ */
+export function getProfileConfig(name: string): ConfigType {
+  if (!configFile.profiles[name]) {
+    throw new Error(`Profile ${name} does not exist`);
+  }
+  return loadProfileConfig(name);
+}
+
+/**
+ * Adds a new profile
+ * @param {string} name The profile name
+ * @param {Partial<ConfigType>} config The profile configuration
+ */
+export function addProfile(name: string, config: Partial<ConfigType>): void {
+  if (configFile.profiles[name]) {
+    throw new Error(`Profile ${name} already exists`);
+  }
+  const profile = { ...defaultConfig, ...config };
+  configFile.profiles[name] = {
+    ...profile,
+    apiKey: sealApiKey(profile.apiKey),
+  };
+  saveConfigFile(configFile);
+}
+
+/**
+ * Makes a profile the saved active profile
+ * @param {string} name The profile name
+ */
+export function useProfile(name: string): void {
+  if (!configFile.profiles[name]) {
+    throw new Error(`Profile ${name} does not exist`);
+  }
+  configFile.activeProfile = name;
+  saveConfigFile(configFile);
+  selectProfile(name);
+}
+
+/**
+ * Removes a profile
+ * @param {string} name The profile name
+ */
+export function removeProfile(name: string): void {
+  if (!configFile.profiles[name]) {
+    throw new Error(`Profile ${name} does not exist`);
+  }
+  if (name === configFile.activeProfile) {
+    throw new Error(
+      `Profile ${name} is active; switch to another profile before removing it`
+    );
+  }
+  delete configFile.profiles[name];
+  saveConfigFile(configFile);
+}
+
 export default {
   ensureConfig,
   getConfig,
+  getAddressLimit,
+  isConfigKey,
+  unlockConfig,
+  isConfigEncrypted,
+  encryptConfig,
+  decryptConfig,
   setConfig,
   resetConfig,
+  selectProfile,
+  getProfileName,
+  getActiveProfile,
+  getProfiles,
+  getProfileConfig,
+  addProfile,
+  useProfile,
+  removeProfile,
 };
@@ -0,0 +1,182 @@
+// Define available transaction types
+export const TRANSACTION_TYPES = [
+  "ANY",
+  "NFT_SALE",
+  "NFT_LISTING",
+  "NFT_CANCEL_LISTING",
+  "NFT_MINT",
+  "NFT_AUCTION_CREATED",
+  "NFT_BID",
+  "NFT_AUCTION_COMPLETE",
+  "SWAP",
+  "SWAP_SOL",
+  "SWAP_TOKEN",
+  "TOKEN_MINT",
+  "TOKEN_BURN",
+  "TRANSFER",
+  "SOL_TRANSFER",
+  "STAKE",
+  "STAKE_DELEGATION",
+  "UNSTAKE",
+  "VOTE",
+  "UNKNOWN",
+];
+
+// Define available webhook types
+export const WEBHOOK_TYPES = [
+  "raw",
+  "rawDevnet",
+  "enhanced",
+  "enhancedDevnet",
+  "discord",
+  "discordDevnet",
+];
+
+// Define available transaction status options
+export const TXN_STATUS_OPTIONS = ["all", "success", "failed"];
+
+// Define available transaction encodings of deliveries
+export const ENCODING_OPTIONS = ["json", "jsonParsed", "base58", "base64"];
+
+// Define available delivery body formats: JSON, or base64 text of the (compressed) JSON
+export const ENCODING_FORMATS = ["json", "base64"];
+
+// Define available delivery compressions
+export const COMPRESSION_OPTIONS = ["none", "gzip", "deflate", "br"];
+
+// What each transaction type stands for, and the program sources Helius parses it from
+export const TRANSACTION_TYPE_INFO: Record<
+  string,
+  { description: string; sources: string[] }
+> = {
+  ANY: {
+    description: "Every transaction touching the account addresses",
+    sources: [],
+  },
+  NFT_SALE: {
+    description: "An NFT sold on a marketplace",
+    sources: [
+      "MAGIC_EDEN",
+      "TENSOR",
+      "SOLANART",
+      "HYPERSPACE",
+      "EXCHANGE_ART",
+      "FORM_FUNCTION",
+      "CORAL_CUBE",
+      "HADESWAP",
+      "METAPLEX",
+    ],
+  },
+  NFT_LISTING: {
+    description: "An NFT listed for sale",
+    sources: [
+      "MAGIC_EDEN",
+      "TENSOR",
+      "SOLANART",
+      "HYPERSPACE",
+      "EXCHANGE_ART",
+      "METAPLEX",
+    ],
+  },
+  NFT_CANCEL_LISTING: {
+    description: "An NFT sale listing withdrawn",
+    sources: [
+      "MAGIC_EDEN",
+      "TENSOR",
+      "SOLANART",
+      "HYPERSPACE",
+      "EXCHANGE_ART",
+      "METAPLEX",
+    ],
+  },
+  NFT_MINT: {
+    description: "An NFT minted",
+    sources: [
+      "CANDY_MACHINE_V3",
+      "CANDY_MACHINE_V2",
+      "CANDY_MACHINE_V1",
+      "METAPLEX",
+      "FORM_FUNCTION",
+      "EXCHANGE_ART",
+    ],
+  },
+  NFT_AUCTION_CREATED: {
+    description: "An auction started for an NFT",
+    sources: ["METAPLEX", "FORM_FUNCTION", "EXCHANGE_ART", "ENGLISH_AUCTION"],
+  },
+  NFT_BID: {
+    description: "A bid placed on an NFT",
+    sources: [
+      "MAGIC_EDEN",
+      "TENSOR",
+      "METAPLEX",
+      "FORM_FUNCTION",
+      "EXCHANGE_ART",
+    ],
+  },
+  NFT_AUCTION_COMPLETE: {
+    description: "An NFT auction settled",
+    sources: ["METAPLEX", "FORM_FUNCTION", "EXCHANGE_ART", "ENGLISH_AUCTION"],
+  },
+  SWAP: {
+    description: "A token swap on a DEX or aggregator",
+    sources: [
+      "JUPITER",
+      "RAYDIUM",
+      "ORCA",
+      "METEORA",
+      "PHOENIX",
+      "OPENBOOK",
+      "LIFINITY",
+      "SABER",
+      "ALDRIN",
+    ],
+  },
+  SWAP_SOL: {
+    description: "A swap from or to SOL",
+    sources: ["JUPITER", "RAYDIUM", "ORCA"],
+  },
+  SWAP_TOKEN: {
+    description: "A swap between two SPL tokens",
+    sources: ["JUPITER", "RAYDIUM", "ORCA"],
+  },
+  TOKEN_MINT: {
+    description: "New SPL tokens minted",
+    sources: ["SOLANA_PROGRAM_LIBRARY"],
+  },
+  TOKEN_BURN: {
+    description: "SPL tokens burned",
+    sources: ["SOLANA_PROGRAM_LIBRARY"],
+  },
+  TRANSFER: {
+    description: "An SPL token or SOL transfer",
+    sources: ["SOLANA_PROGRAM_LIBRARY", "SYSTEM_PROGRAM"],
+  },
+  SOL_TRANSFER: {
+    description: "A native SOL transfer",
+    sources: ["SYSTEM_PROGRAM"],
+  },
+  STAKE: {
+    description: "SOL staked with a validator or staking pool",
+    sources: ["STAKE_PROGRAM", "MARINADE"],
+  },
+  STAKE_DELEGATION: {
+    description: "A stake account delegated to a validator",
+    sources: ["STAKE_PROGRAM"],
+  },
+  UNSTAKE: {
+    description: "Staked SOL withdrawn",
+    sources: ["STAKE_PROGRAM", "MARINADE"],
+  },
+  VOTE: {
+    description: "A validator vote",
+    sources: ["SOLANA_PROGRAM_LIBRARY"],
+  },
+  UNKNOWN: {
+    description: "A transaction Helius could not classify",
+    sources: [],
+  },
+};
+
+// Permissions of files holding API keys or auth headers: owner read/write only
+export const PRIVATE_FILE_MODE = 0o600;
@@ -0,0 +1,238 @@
+import * as fs from "fs";
+import * as zlib from "zlib";
+import { PRIVATE_FILE_MODE } from "./constants";
+
+// A webhook delivery received by `webhooks listen`
+export interface DeliveryRecord {
+  receivedAt: string;
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: any;
+  // How the body was packed on the wire, when it was not plain JSON (e.g. "base64+gzip")
+  packing?: string;
+}
+
+// Options for decodeDeliveryBody; anything not given is detected from the body
+export interface DecodeOptions {
+  // Body format: "json", or "base64" text of the (compressed) JSON
+  format?: string;
+  // Compression: "none", "gzip", "deflate" or "br"
+  compression?: string;
+  // Content-Encoding header of the request
+  contentEncoding?: string;
+}
+
+// A decoded delivery body, with how it was packed
+export interface DecodedBody {
+  body: any;
+  format: string;
+  compression: string;
+}
+
+/**
+ * Guesses the compression of a delivery body from its first bytes
+ * Brotli has no signature, so it is assumed only when the body decompresses to JSON
+ * @param bytes Body bytes
+ * @returns "gzip", "deflate", "br" or "none"
+ */
+function sniffCompression(bytes: Buffer): string {
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return "gzip";
+  if (bytes[0] === 0x78 && [0x01, 0x5e, 0x9c, 0xda].includes(bytes[1])) {
+    return "deflate";
+  }
+  try {
+    const body = parseBody(zlib.brotliDecompressSync(bytes).toString("utf8"));
+    if (body !== null && typeof body === "object") return "br";
+  } catch (error) {
+    // Not brotli
+  }
+  return "none";
+}
+
+/**
+ * Parses text as JSON, keeping text that is not JSON as is
+ * @param text Body text
+ * @returns Parsed body
+ */
+function parseBody(text: string): any {
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    return text;
+  }
+}
+
+/**
+ * Packs a delivery body the way a webhook's encoding_config asks for
+ * @param body Delivery body
+ * @param config Format and compression; plain JSON when not given
+ * @returns Bytes to send and the headers describing them
+ */
+export function encodeDeliveryBody(
+  body: unknown,
+  config?: { format: string; compression: string }
+): { data: Buffer; headers: Record<string, string> } {
+  const json = Buffer.from(JSON.stringify(body));
+  const compression = config?.compression || "none";
+  const compressed =
+    compression === "gzip"
+      ? zlib.gzipSync(json)
+      : compression === "deflate"
+      ? zlib.deflateSync(json)
+      : compression === "br"
+      ? zlib.brotliCompressSync(json)
+      : json;
+
+  if (config?.format === "base64") {
+    return {
+      data: Buffer.from(compressed.toString("base64")),
+      headers: { "Content-Type": "text/plain" },
+    };
+  }
+  return {
+    data: compressed,
+    headers: {
+      "Content-Type": "application/json",
+      ...(compression !== "none" ? { "Content-Encoding": compression } : {}),
+    },
+  };
+}
+
+/**
+ * Unpacks a delivery body sent with an encoding_config format and compression
+ * @param raw Body bytes as received
+ * @param options Known format and compression
+ * @returns Decoded body
+ */
+export function decodeDeliveryBody(
+  raw: Buffer,
+  options: DecodeOptions = {}
+): DecodedBody {
+  let bytes = raw;
+  let format = options.format || "json";
+
+  // Base64 text is only assumed when it decodes to compressed data or JSON
+  const text = raw.toString("utf8").trim();
+  if (options.format === "base64") {
+    bytes = Buffer.from(text, "base64");
+    format = "base64";
+  } else if (
+    !options.format &&
+    /^[A-Za-z0-9+/]+={0,2}$/.test(text) &&
+    typeof parseBody(text) === "string"
+  ) {
+    const decoded = Buffer.from(text, "base64");
+    if (
+      sniffCompression(decoded) !== "none" ||
+      typeof parseBody(decoded.toString("utf8")) === "object"
+    ) {
+      bytes = decoded;
+      format = "base64";
+    }
+  }
+
+  const header = options.contentEncoding?.toLowerCase();
+  const compression =
+    options.compression ||
+    (header === "gzip" || header === "x-gzip"
+      ? "gzip"
+      : header === "deflate" || header === "br"
+      ? header
+      : sniffCompression(bytes));
+
+  try {
+    const unpacked =
+      compression === "gzip"
+        ? zlib.gunzipSync(bytes)
+        : compression === "deflate"
+        ? zlib.inflateSync(bytes)
+        : compression === "br"
+        ? zlib.brotliDecompressSync(bytes)
+        : bytes;
+    return { body: parseBody(unpacked.toString("utf8")), format, compression };
+  } catch (error) {
+    throw new Error(
+      `Could not decompress the delivery as ${compression}${
+        format === "base64" ? " (after base64 decoding)" : ""
+      }`
+    );
+  }
+}
+
+/**
+ * Appends a delivery to a JSONL file
+ * @param file Path to the JSONL file
+ * @param record Delivery to append
+ */
+export function appendDelivery(file: string, record: DeliveryRecord): void {
+  // Records keep the Authorization header for replay, so new files are private
+  fs.appendFileSync(file, JSON.stringify(record) + "\n", {
+    mode: PRIVATE_FILE_MODE,
+  });
+}
+
+/**
+ * Reads all deliveries from a JSONL file
+ * @param file Path to the JSONL file
+ * @returns Deliveries in file order
+ */
+export function readDeliveries(file: string): DeliveryRecord[] {
+  return fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line !== "")
+    .map(({ line, index }) => {
+      try {
+        return JSON.parse(line) as DeliveryRecord;
+      } catch (error) {
+        throw new Error(`Invalid JSON on line ${index + 1} of ${file}`);
+      }
+    });
+}
+
+/**
+ * Gets the transactions carried by a delivery body
+ * Helius sends an array of transactions; anything else is treated as one
+ * @param body Delivery body
+ * @returns Transactions in the body, which may be of any shape
+ */
+export function transactionsOf(body: unknown): unknown[] {
+  if (Array.isArray(body)) return body;
+  return body && typeof body === "object" ? [body] : [];
+}
+
+/**
+ * Gets the fields of a transaction, if it is an object
+ * @param tx Transaction from a delivery body
+ * @returns The transaction's fields, or undefined for anything but an object
+ */
+function transactionFields(tx: unknown): Record<string, any> | undefined {
+  return tx && typeof tx === "object" && !Array.isArray(tx)
+    ? (tx as Record<string, any>)
+    : undefined;
+}
+
+/**
+ * Gets the signature of a transaction in the enhanced or raw format
+ * @param tx Transaction from a delivery body
+ * @returns Signature, if present
+ */
+export function transactionSignature(tx: unknown): string | undefined {
+  const fields = transactionFields(tx);
+  const signature = fields?.signature || fields?.transaction?.signatures?.[0];
+  return typeof signature === "string" ? signature : undefined;
+}
+
+/**
+ * Gets the type of a transaction in the enhanced or raw format
+ * @param tx Transaction from a delivery body
+ * @returns Transaction type, "RAW" for raw transactions and "UNKNOWN" for
+ * anything that is not a transaction
+ */
+export function transactionType(tx: unknown): string {
+  const fields = transactionFields(tx);
+  if (typeof fields?.type === "string") return fields.type;
+  return fields?.transaction ? "RAW" : "UNKNOWN";
+}
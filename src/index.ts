@@ -1,10 +1,29 @@
 #!/usr/bin/env node
 
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import chalk from "chalk";
 import { registerWebhookCommands } from "./commands/webhooks";
 import { registerConfigCommands } from "./commands/config";
-import { ensureConfig } from "./config";
+import { registerApplyCommands } from "./commands/apply";
+import { registerMockServerCommand } from "./commands/mock-server";
+import { registerPayloadCommands } from "./commands/payloads";
+import { registerTypeCommands } from "./commands/types";
+import {
+  ensureConfig,
+  getProfiles,
+  profileExists,
+  selectProfile,
+} from "./config";
+import { DEFAULT_REQUEST_OPTIONS, heliusApi } from "./api";
+import {
+  exitWithError,
+  fail,
+  info,
+  OUTPUT_FORMATS,
+  setOutputFormat,
+} from "./output";
+import { setInputMode } from "./prompt";
+import { setShowSecrets } from "./secrets";
 
 // Create the program
 const program = new Command();
@@ -13,11 +32,80 @@ const program = new Command();
 program
   .name("helius")
   .description("CLI tool for managing Helius webhooks")
-  .version("1.0.0");
+  .version("1.0.0")
+  .addOption(
+    new Option("-o, --output <format>", "Output format")
+      .choices(OUTPUT_FORMATS)
+      .default("text")
+  )
+  .option(
+    "--profile <name>",
+    "Configuration profile to use (defaults to HELIUS_PROFILE or the active profile)"
+  )
+  .option(
+    "--retries <n>",
+    `Retries for rate-limited and failed API requests (default ${DEFAULT_REQUEST_OPTIONS.retries}, or HELIUS_RETRIES)`
+  )
+  .option(
+    "--timeout <ms>",
+    `API request timeout in milliseconds (default ${DEFAULT_REQUEST_OPTIONS.timeout}, or HELIUS_TIMEOUT)`
+  )
+  .option("--show-secrets", "Show API keys and auth headers unredacted")
+  .option("-y, --yes", "Answer yes to every confirmation prompt")
+  .option(
+    "--no-input",
+    "Never prompt; fail on missing values (the default when stdin is not a TTY)"
+  );
+
+// Apply the selected output format, profile and request settings before any command runs
+program.hook("preAction", (_, actionCommand) => {
+  const { output, profile, retries, timeout, showSecrets, yes, input } =
+    program.opts();
+  setOutputFormat(output);
+  setShowSecrets(Boolean(showSecrets));
+  setInputMode({ yes, input });
+
+  // An unknown profile is an error, so that a typo is never saved as a new
+  // profile; the profile commands still run, so the profile can be created
+  const name = profile || process.env.HELIUS_PROFILE;
+  if (name && actionCommand.parent?.name() !== "profiles") {
+    if (!profileExists(name)) {
+      const names = Object.keys(getProfiles());
+      fail(
+        `Profile ${name} does not exist`,
+        names.length > 0
+          ? `Existing profiles: ${names.join(
+              ", "
+            )}. Create it with helius config profiles add ${name}`
+          : `Create it with helius config profiles add ${name}`
+      );
+    }
+    selectProfile(name);
+    heliusApi.refreshConfig();
+  }
+  if (retries !== undefined) {
+    const value = parseInt(retries, 10);
+    if (isNaN(value) || value < 0) {
+      fail(`Invalid retries: ${retries}`);
+    }
+    heliusApi.setRequestOptions({ retries: value });
+  }
+  if (timeout !== undefined) {
+    const value = parseInt(timeout, 10);
+    if (isNaN(value) || value <= 0) {
+      fail(`Invalid timeout: ${timeout}`);
+    }
+    heliusApi.setRequestOptions({ timeout: value });
+  }
+});
 
 // Register commands
 registerWebhookCommands(program);
 registerConfigCommands(program);
+registerApplyCommands(program);
+registerMockServerCommand(program);
+registerPayloadCommands(program);
+registerTypeCommands(program);
 
 // Add a setup command
 program
@@ -26,13 +114,9 @@ program
   .action(async () => {
     try {
       await ensureConfig();
-      console.log(chalk.green("Setup complete! You can now use the CLI."));
+      info(chalk.green("Setup complete! You can now use the CLI."));
     } catch (error) {
-      console.error(
-        chalk.red("Error during setup:"),
-        error instanceof Error ? error.message : error
-      );
-      process.exit(1);
+      exitWithError("Error during setup:", error);
     }
   });
 
@@ -43,10 +127,14 @@ program.on("command:*", () => {
   process.exit(1);
 });
 
-// Parse arguments
-program.parse(process.argv);
+// Parse arguments when run as the CLI, so that importing this module has no effect
+if (require.main === module) {
+  program.parse(process.argv);
 
-// Show help if no arguments provided
-if (process.argv.length === 2) {
-  program.outputHelp();
+  // Show help if no arguments provided
+  if (process.argv.length === 2) {
+    program.outputHelp();
+  }
 }
+
+export default program;
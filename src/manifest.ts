@@ -0,0 +1,298 @@
+import * as fs from "fs";
+import * as path from "path";
+import YAML from "yaml";
+import { findInvalidAddresses, formatInvalidAddresses } from "./addresses";
+import { Webhook } from "./api";
+import { CONFIG_DIR, ensureConfigDir, getProfileName } from "./config";
+import {
+  TRANSACTION_TYPES,
+  TXN_STATUS_OPTIONS,
+  WEBHOOK_TYPES,
+} from "./constants";
+import { findRuleViolations } from "./webhook-rules";
+
+// A webhook as declared in a manifest
+export interface ManifestWebhook extends Omit<Webhook, "webhookID"> {
+  label?: string;
+}
+
+// Manifest file contents
+export interface Manifest {
+  version: number;
+  webhooks: ManifestWebhook[];
+}
+
+// A single change computed by planManifest
+export type PlanChange =
+  | { action: "create"; key: string; desired: ManifestWebhook }
+  | {
+      action: "update";
+      key: string;
+      current: Webhook;
+      desired: ManifestWebhook;
+      fields: (keyof ManifestWebhook)[];
+    }
+  | { action: "unchanged"; key: string; current: Webhook }
+  | { action: "delete"; current: Webhook };
+
+// Supported manifest version
+const MANIFEST_VERSION = 1;
+
+// Fields compared when deciding whether a webhook needs an update
+const COMPARED_FIELDS: (keyof ManifestWebhook)[] = [
+  "webhookURL",
+  "webhookType",
+  "transactionTypes",
+  "accountAddresses",
+  "authHeader",
+  "txnStatus",
+  "encoding",
+  "encoding_config",
+];
+
+/**
+ * Gets the stable key used to match a manifest entry with a webhook
+ * @param entry Manifest entry
+ * @returns The URL, suffixed with `#label` when the entry has a label
+ */
+export function manifestKey(entry: ManifestWebhook): string {
+  return entry.label ? `${entry.webhookURL}#${entry.label}` : entry.webhookURL;
+}
+
+/**
+ * Loads and validates a manifest file
+ * @param file Path to a YAML or JSON manifest
+ * @returns Parsed manifest
+ */
+export function loadManifest(file: string): Manifest {
+  const text = fs.readFileSync(file, "utf8");
+  const data = /\.json$/i.test(file) ? JSON.parse(text) : YAML.parse(text);
+
+  if (!data || typeof data !== "object" || !Array.isArray(data.webhooks)) {
+    throw new Error("Manifest must contain a `webhooks` list");
+  }
+
+  if (data.version !== undefined && data.version !== MANIFEST_VERSION) {
+    throw new Error(
+      `Unsupported manifest version ${data.version} (expected ${MANIFEST_VERSION})`
+    );
+  }
+
+  const seen = new Set<string>();
+  const webhooks = (data.webhooks as any[]).map((entry, index) => {
+    const where = `webhooks[${index}]`;
+
+    if (!entry || typeof entry.webhookURL !== "string" || !entry.webhookURL) {
+      throw new Error(`${where}: webhookURL is required`);
+    }
+    if (!WEBHOOK_TYPES.includes(entry.webhookType)) {
+      throw new Error(
+        `${where}: invalid webhookType ${
+          entry.webhookType
+        } (valid types are: ${WEBHOOK_TYPES.join(", ")})`
+      );
+    }
+    if (
+      !Array.isArray(entry.transactionTypes) ||
+      entry.transactionTypes.length === 0
+    ) {
+      throw new Error(`${where}: transactionTypes must be a non-empty list`);
+    }
+    for (const type of entry.transactionTypes) {
+      if (!TRANSACTION_TYPES.includes(type)) {
+        throw new Error(`${where}: invalid transaction type ${type}`);
+      }
+    }
+    if (
+      !Array.isArray(entry.accountAddresses) ||
+      entry.accountAddresses.length === 0
+    ) {
+      throw new Error(`${where}: accountAddresses must be a non-empty list`);
+    }
+    const invalid = findInvalidAddresses(entry.accountAddresses.map(String));
+    if (invalid.length > 0) {
+      throw new Error(
+        `${where}: invalid accountAddresses:\n${formatInvalidAddresses(
+          invalid
+        )}`
+      );
+    }
+    if (
+      entry.txnStatus !== undefined &&
+      !TXN_STATUS_OPTIONS.includes(entry.txnStatus)
+    ) {
+      throw new Error(`${where}: invalid txnStatus ${entry.txnStatus}`);
+    }
+    const [violation] = findRuleViolations(entry);
+    if (violation) {
+      throw new Error(`${where}: ${violation.message}`);
+    }
+
+    const webhook = entry as ManifestWebhook;
+    const key = manifestKey(webhook);
+    if (seen.has(key)) {
+      throw new Error(
+        `${where}: duplicate key ${key} (give entries with the same URL distinct labels)`
+      );
+    }
+    seen.add(key);
+
+    return webhook;
+  });
+
+  return { version: MANIFEST_VERSION, webhooks };
+}
+
+/**
+ * Gets the path to the state file that maps manifest keys to webhook IDs
+ * Each profile has its own state, since webhook IDs belong to one account
+ * @returns State file path
+ */
+function statePath(): string {
+  return path.join(CONFIG_DIR, `apply-state.${getProfileName()}.json`);
+}
+
+/**
+ * Loads the manifest key to webhook ID mapping
+ * @returns State mapping
+ */
+export function loadState(): Record<string, string> {
+  try {
+    if (fs.existsSync(statePath())) {
+      return JSON.parse(fs.readFileSync(statePath(), "utf8"));
+    }
+  } catch (error) {
+    console.error("Error loading apply state:", error);
+  }
+  return {};
+}
+
+/**
+ * Saves the manifest key to webhook ID mapping
+ * @param state State mapping
+ */
+export function saveState(state: Record<string, string>): void {
+  try {
+    ensureConfigDir();
+    fs.writeFileSync(statePath(), JSON.stringify(state, null, 2));
+  } catch (error) {
+    console.error("Error saving apply state:", error);
+  }
+}
+
+/**
+ * Normalizes a field value so that equivalent values compare equal
+ * Arrays are compared as sets and empty strings as missing values
+ * @param value Field value
+ * @returns Comparable string
+ */
+function normalize(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "";
+  if (Array.isArray(value)) return JSON.stringify([...value].sort());
+  return JSON.stringify(value);
+}
+
+/**
+ * Lists the fields that differ between a webhook and its manifest entry
+ * Fields the entry leaves out are not managed: updates do not send them, so
+ * the webhook keeps its current value.
+ * @param current Existing webhook
+ * @param desired Manifest entry
+ * @returns Names of the differing fields
+ */
+export function changedFields(
+  current: Webhook,
+  desired: ManifestWebhook
+): (keyof ManifestWebhook)[] {
+  return COMPARED_FIELDS.filter(
+    (field) =>
+      desired[field] !== undefined &&
+      normalize(desired[field]) !== normalize(current[field as keyof Webhook])
+  );
+}
+
+/**
+ * Computes the changes needed to make the account match a manifest
+ *
+ * Entries are matched with webhooks through the saved state first. Entries
+ * without a saved match adopt an existing webhook with the same URL when
+ * exactly one unmatched webhook and one unmatched entry share that URL.
+ * @param manifest Desired webhooks
+ * @param webhooks Existing webhooks
+ * @param state Saved manifest key to webhook ID mapping
+ * @param prune Whether webhooks missing from the manifest should be deleted
+ * @returns Planned changes
+ */
+export function planManifest(
+  manifest: Manifest,
+  webhooks: Webhook[],
+  state: Record<string, string>,
+  prune: boolean
+): PlanChange[] {
+  const byID = new Map(webhooks.map((w) => [w.webhookID, w]));
+  const matched = new Map<string, Webhook>();
+  const used = new Set<string>();
+
+  // Match through saved state
+  for (const entry of manifest.webhooks) {
+    const key = manifestKey(entry);
+    const webhook = state[key] ? byID.get(state[key]) : undefined;
+    if (webhook && !used.has(webhook.webhookID)) {
+      matched.set(key, webhook);
+      used.add(webhook.webhookID);
+    }
+  }
+
+  // Adopt unambiguous matches by URL
+  for (const entry of manifest.webhooks) {
+    const key = manifestKey(entry);
+    if (matched.has(key)) continue;
+
+    const entries = manifest.webhooks.filter(
+      (e) => e.webhookURL === entry.webhookURL && !matched.has(manifestKey(e))
+    );
+    const candidates = webhooks.filter(
+      (w) => w.webhookURL === entry.webhookURL && !used.has(w.webhookID)
+    );
+    if (entries.length === 1 && candidates.length === 1) {
+      matched.set(key, candidates[0]);
+      used.add(candidates[0].webhookID);
+    }
+  }
+
+  const changes: PlanChange[] = manifest.webhooks.map((desired) => {
+    const key = manifestKey(desired);
+    const current = matched.get(key);
+
+    if (!current) {
+      return { action: "create", key, desired };
+    }
+
+    const fields = changedFields(current, desired);
+    return fields.length > 0
+      ? { action: "update", key, current, desired, fields }
+      : { action: "unchanged", key, current };
+  });
+
+  if (prune) {
+    for (const webhook of webhooks) {
+      if (!used.has(webhook.webhookID)) {
+        changes.push({ action: "delete", current: webhook });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Strips manifest-only fields from an entry
+ * @param entry Manifest entry
+ * @returns Webhook data accepted by the API
+ */
+export function toWebhookData(
+  entry: ManifestWebhook
+): Omit<Webhook, "webhookID"> {
+  const { label, ...data } = entry;
+  return data;
+}
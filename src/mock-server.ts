@@ -0,0 +1,286 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import { Webhook } from "./client";
+import { encodeBase58 } from "./base58";
+
+// Options for the mock Helius API server
+export interface MockServerOptions {
+  apiKey?: string;
+  dataFile?: string;
+  collectionSize: number;
+  log?: (message: string) => void;
+}
+
+// Persisted mock server state
+interface MockState {
+  webhooks: Webhook[];
+  collections: Record<string, string[]>;
+}
+
+// Largest page the DAS stub returns, like the real API
+const MAX_DAS_LIMIT = 1000;
+
+// Grouping key for each supported DAS method, or undefined for invalid params
+const DAS_METHODS: Record<string, (params: any) => string | undefined> = {
+  getAssetsByGroup: (params) =>
+    params.groupKey === "collection" && params.groupValue
+      ? params.groupValue
+      : undefined,
+  getAssetsByCreator: (params) =>
+    params.creatorAddress ? `creator:${params.creatorAddress}` : undefined,
+  getAssetsByAuthority: (params) =>
+    params.authorityAddress
+      ? `authority:${params.authorityAddress}`
+      : undefined,
+  getAssetsByOwner: (params) =>
+    params.ownerAddress ? `owner:${params.ownerAddress}` : undefined,
+};
+
+// Matches the webhook endpoints, with or without the /v0 prefix
+const WEBHOOKS_PATH = /^(?:\/v0)?\/webhooks(?:\/([^/]+))?\/?$/;
+
+/**
+ * Derives a deterministic, valid-looking address from a seed
+ * @param seed Seed string
+ * @returns Base58 encoded 32-byte address
+ */
+export function mockAddress(seed: string): string {
+  return encodeBase58(crypto.createHash("sha256").update(seed).digest());
+}
+
+/**
+ * Loads mock state from a file, if it exists
+ * @param file Path to the data file
+ * @returns Mock state
+ */
+function loadState(file?: string): MockState {
+  if (file && fs.existsSync(file)) {
+    const data = JSON.parse(fs.readFileSync(file, "utf8"));
+    return {
+      webhooks: data.webhooks || [],
+      collections: data.collections || {},
+    };
+  }
+  return { webhooks: [], collections: {} };
+}
+
+/**
+ * Reads and parses a JSON request body
+ * @param req Incoming request
+ * @returns Parsed body, or undefined when empty
+ */
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8");
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch (error) {
+        reject(new Error("Invalid JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Sends a JSON response
+ * @param res Server response
+ * @param status Status code
+ * @param body Response body
+ */
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Checks that a webhook body has the fields the API requires
+ * @param body Request body
+ * @returns Error message, or undefined if the body is valid
+ */
+function validateWebhook(body: any): string | undefined {
+  if (!body || typeof body !== "object") return "body must be a JSON object";
+  if (typeof body.webhookURL !== "string" || !body.webhookURL)
+    return "webhookURL is required";
+  if (typeof body.webhookType !== "string" || !body.webhookType)
+    return "webhookType is required";
+  if (!Array.isArray(body.transactionTypes))
+    return "transactionTypes must be an array";
+  if (!Array.isArray(body.accountAddresses))
+    return "accountAddresses must be an array";
+  return undefined;
+}
+
+/**
+ * Creates an in-memory (optionally file-backed) Helius API server
+ *
+ * Serves the `/webhooks` CRUD endpoints and JSON-RPC stubs of the DAS
+ * `getAssetsByGroup`, `getAssetsByCreator`, `getAssetsByAuthority` and
+ * `getAssetsByOwner` methods on `/`, with page, cursor and `after`
+ * pagination. Groupings that are not in the data file get `collectionSize`
+ * deterministic asset IDs; every fourth asset is compressed and every
+ * twenty-fifth is burnt.
+ * @param options Server options
+ * @returns HTTP server, not yet listening
+ */
+export function createMockServer(options: MockServerOptions): http.Server {
+  const state = loadState(options.dataFile);
+  const log = options.log || (() => undefined);
+
+  const save = () => {
+    if (options.dataFile) {
+      fs.writeFileSync(options.dataFile, JSON.stringify(state, null, 2));
+    }
+  };
+
+  // Collections are keyed by address, other groupings by "kind:address"
+  const groupAssets = (key: string): string[] => {
+    if (!state.collections[key]) {
+      state.collections[key] = Array.from(
+        { length: options.collectionSize },
+        (_, i) => mockAddress(`${key}:${i}`)
+      );
+    }
+    return state.collections[key];
+  };
+
+  const handleWebhooks = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    id: string | undefined
+  ) => {
+    const index = id ? state.webhooks.findIndex((w) => w.webhookID === id) : -1;
+
+    if (id && index === -1) {
+      return send(res, 404, { error: "Webhook not found" });
+    }
+
+    switch (`${req.method} ${id ? "one" : "all"}`) {
+      case "GET all":
+        return send(res, 200, state.webhooks);
+      case "GET one":
+        return send(res, 200, state.webhooks[index]);
+      case "POST all": {
+        const body = await readBody(req);
+        const error = validateWebhook(body);
+        if (error) return send(res, 400, { error });
+        const webhook: Webhook = { ...body, webhookID: crypto.randomUUID() };
+        state.webhooks.push(webhook);
+        save();
+        return send(res, 200, webhook);
+      }
+      case "PUT one": {
+        const body = await readBody(req);
+        if (!body || typeof body !== "object") {
+          return send(res, 400, { error: "body must be a JSON object" });
+        }
+        const webhook: Webhook = {
+          ...state.webhooks[index],
+          ...body,
+          webhookID: id,
+        };
+        const error = validateWebhook(webhook);
+        if (error) return send(res, 400, { error });
+        state.webhooks[index] = webhook;
+        save();
+        return send(res, 200, webhook);
+      }
+      case "DELETE one":
+        state.webhooks.splice(index, 1);
+        save();
+        return send(res, 200, { success: true });
+      default:
+        return send(res, 405, { error: "Method not allowed" });
+    }
+  };
+
+  const handleRpc = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) => {
+    const body = await readBody(req);
+    const rpcId = body?.id ?? null;
+
+    const method = DAS_METHODS[body?.method];
+    if (!method) {
+      return send(res, 200, {
+        jsonrpc: "2.0",
+        id: rpcId,
+        error: { code: -32601, message: "Method not found" },
+      });
+    }
+
+    const params = body.params || {};
+    const key = method(params);
+    if (!key) {
+      return send(res, 200, {
+        jsonrpc: "2.0",
+        id: rpcId,
+        error: { code: -32602, message: "Invalid params" },
+      });
+    }
+
+    const assets = groupAssets(key);
+    const limit = Math.min(
+      MAX_DAS_LIMIT,
+      Math.max(1, parseInt(params.limit, 10) || MAX_DAS_LIMIT)
+    );
+
+    // Cursor and `after` pagination start after the given asset ID;
+    // otherwise fall back to page numbers
+    const position = params.cursor || params.after;
+    const page = Math.max(1, parseInt(params.page, 10) || 1);
+    const start = position ? assets.indexOf(position) + 1 : (page - 1) * limit;
+    const slice =
+      position && start === 0 ? [] : assets.slice(start, start + limit);
+    const items = slice.map((assetId, i) => ({
+      id: assetId,
+      compression: { compressed: (start + i) % 4 === 3 },
+      burnt: (start + i) % 25 === 24,
+    }));
+
+    return send(res, 200, {
+      jsonrpc: "2.0",
+      id: rpcId,
+      result: {
+        total: items.length,
+        limit,
+        ...(position ? {} : { page }),
+        ...(start + limit < assets.length && items.length > 0
+          ? { cursor: slice[slice.length - 1] }
+          : {}),
+        items,
+      },
+    });
+  };
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    log(`${req.method} ${url.pathname}`);
+
+    // Every endpoint requires the api-key query param, like the real API
+    const apiKey = url.searchParams.get("api-key");
+    if (!apiKey || (options.apiKey && apiKey !== options.apiKey)) {
+      return send(res, 401, { error: "Invalid API key" });
+    }
+
+    try {
+      const match = url.pathname.match(WEBHOOKS_PATH);
+      if (match) {
+        return await handleWebhooks(req, res, match[1]);
+      }
+      if (req.method === "POST" && url.pathname === "/") {
+        return await handleRpc(req, res);
+      }
+      return send(res, 404, { error: "Not found" });
+    } catch (error) {
+      return send(res, 400, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
@@ -0,0 +1,456 @@
+import chalk from "chalk";
+import YAML from "yaml";
+import { ApiErrorKind, HeliusApiError, Webhook } from "./api";
+import { MissingInputError } from "./prompt";
+import { RuleViolation } from "./webhook-rules";
+import { displaySecret, scrubSecrets } from "./secrets";
+
+// Define available output formats
+export const OUTPUT_FORMATS = ["text", "json", "yaml", "table", "wide"];
+
+export type OutputFormat = "text" | "json" | "yaml" | "table" | "wide";
+
+// Exit codes, so scripts can tell the kinds of failure apart
+export const EXIT_CODES = {
+  error: 1,
+  auth: 2,
+  notFound: 3,
+  rateLimit: 4,
+  network: 5,
+  missingInput: 6,
+};
+
+// Exit code and hint for each kind of API error
+const API_ERROR_HANDLING: Record<
+  ApiErrorKind,
+  { code: number; hint?: string }
+> = {
+  auth: {
+    code: EXIT_CODES.auth,
+    hint: "Check your API key with `helius config show`, or set a new one with `helius config set apiKey <key>`",
+  },
+  "not-found": {
+    code: EXIT_CODES.notFound,
+    hint: "Check the ID with `helius webhooks list`",
+  },
+  "rate-limit": {
+    code: EXIT_CODES.rateLimit,
+    hint: "Rate limited by the Helius API; wait a moment or raise --retries",
+  },
+  network: {
+    code: EXIT_CODES.network,
+    hint: "Check your network connection and the configured base URL",
+  },
+  timeout: {
+    code: EXIT_CODES.network,
+    hint: "The API did not answer in time; raise --timeout or try again later",
+  },
+  api: { code: EXIT_CODES.error },
+};
+
+// Maximum number of account addresses shown inline by formatWebhook
+const MAX_INLINE_ADDRESSES = 10;
+
+// Current output format
+let outputFormat: OutputFormat = "text";
+
+/**
+ * Sets the output format for this run
+ * @param format The output format
+ */
+export function setOutputFormat(format: string): void {
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(
+      `Invalid output format: ${format} (valid formats are: ${OUTPUT_FORMATS.join(
+        ", "
+      )})`
+    );
+  }
+
+  outputFormat = format as OutputFormat;
+}
+
+/**
+ * Gets the output format for this run
+ * @returns The output format
+ */
+export function getOutputFormat(): OutputFormat {
+  return outputFormat;
+}
+
+/**
+ * Checks whether a machine-readable format (json or yaml) is selected
+ * @returns True for json and yaml output
+ */
+export function isMachineOutput(): boolean {
+  return outputFormat === "json" || outputFormat === "yaml";
+}
+
+/**
+ * Prints a human-readable message
+ * Machine formats send it to stderr, so that stdout only carries printData output
+ * @param args Values to print, as for console.log
+ */
+export function info(...args: unknown[]): void {
+  if (isMachineOutput()) {
+    console.error(...args);
+  } else {
+    console.log(...args);
+  }
+}
+
+/**
+ * Writes data to stdout in the selected machine format
+ * @param data Data to write
+ */
+export function printData(data: unknown): void {
+  const text =
+    outputFormat === "yaml"
+      ? YAML.stringify(data)
+      : JSON.stringify(data, null, 2) + "\n";
+  process.stdout.write(text);
+}
+
+/**
+ * Formats rows as a plain-text table with aligned columns
+ * @param headers Column headers
+ * @param rows Table rows
+ * @returns Formatted table
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])))
+      .join("  ");
+
+  return [formatRow(headers), ...rows.map(formatRow)].join("\n");
+}
+
+/**
+ * Format a webhook's account addresses for display
+ * Long lists are truncated with a pointer to `webhooks addresses list`
+ * @param webhook Webhook data
+ * @returns Formatted string
+ */
+function formatAddresses(webhook: Webhook): string {
+  const addresses = webhook.accountAddresses;
+
+  if (addresses.length === 0) {
+    return "None";
+  }
+
+  if (addresses.length <= MAX_INLINE_ADDRESSES) {
+    return addresses.join(", ");
+  }
+
+  return `${addresses.slice(0, MAX_INLINE_ADDRESSES).join(", ")} ${chalk.dim(
+    `... and ${
+      addresses.length - MAX_INLINE_ADDRESSES
+    } more (helius webhooks addresses list ${webhook.webhookID})`
+  )}`;
+}
+
+/**
+ * Format webhook data for display
+ * @param webhook Webhook data
+ * @param labels Local labels of the webhook
+ * @returns Formatted string
+ */
+export function formatWebhook(webhook: Webhook, labels: string[] = []): string {
+  return `
+${chalk.bold("ID:")} ${webhook.webhookID}${
+    labels.length > 0 ? `\n${chalk.bold("Labels:")} ${labels.join(", ")}` : ""
+  }
+${chalk.bold("URL:")} ${webhook.webhookURL}
+${chalk.bold("Type:")} ${webhook.webhookType}
+${chalk.bold("Transaction Types:")} ${webhook.transactionTypes.join(", ")}
+${chalk.bold("Account Addresses:")} ${formatAddresses(webhook)}
+${
+  webhook.txnStatus
+    ? `${chalk.bold("Transaction Status:")} ${webhook.txnStatus}`
+    : ""
+}
+${webhook.encoding ? `${chalk.bold("Encoding:")} ${webhook.encoding}` : ""}
+${
+  webhook.encoding_config
+    ? `${chalk.bold("Encoding Config:")} Format: ${
+        webhook.encoding_config.format
+      }, Compression: ${webhook.encoding_config.compression}`
+    : ""
+}
+${
+  webhook.authHeader
+    ? `${chalk.bold("Auth Header:")} ${displaySecret(webhook.authHeader)}`
+    : ""
+}
+`;
+}
+
+/**
+ * Format the field-by-field differences between two webhooks
+ * @param before Webhook before the change
+ * @param after Webhook after the change
+ * @returns Formatted diff, or an empty string if nothing changed
+ */
+export function formatWebhookDiff(
+  before: Omit<Webhook, "webhookID">,
+  after: Omit<Webhook, "webhookID">
+): string {
+  const fields: [keyof Omit<Webhook, "webhookID">, string][] = [
+    ["webhookURL", "URL"],
+    ["webhookType", "Type"],
+    ["transactionTypes", "Transaction Types"],
+    ["txnStatus", "Transaction Status"],
+    ["authHeader", "Auth Header"],
+    ["encoding", "Encoding"],
+    ["encoding_config", "Encoding Config"],
+  ];
+
+  const display = (value: unknown): string => {
+    if (value === undefined || value === "") return "(none)";
+    if (Array.isArray(value)) return value.join(", ");
+    // The only object field is encoding_config
+    if (typeof value === "object" && value !== null) {
+      const { format, compression } = value as NonNullable<
+        Webhook["encoding_config"]
+      >;
+      return `Format: ${format}, Compression: ${compression}`;
+    }
+    return String(value);
+  };
+
+  // Auth headers are compared in full but shown redacted
+  const show = (key: string, value: unknown): string =>
+    key === "authHeader" && typeof value === "string" && value !== ""
+      ? displaySecret(value)
+      : display(value);
+
+  const lines = fields
+    .filter(([key]) => display(before[key]) !== display(after[key]))
+    .map(
+      ([key, label]) =>
+        `${chalk.bold(label + ":")}\n  ${chalk.red(
+          "- " + show(key, before[key])
+        )}\n  ${chalk.green("+ " + show(key, after[key]))}`
+    );
+
+  // Address lists can be long, so only summarize them
+  const beforeAddresses = new Set(before.accountAddresses);
+  const afterAddresses = new Set(after.accountAddresses);
+  const added = after.accountAddresses.filter((a) => !beforeAddresses.has(a));
+  const removed = before.accountAddresses.filter((a) => !afterAddresses.has(a));
+  if (added.length > 0 || removed.length > 0) {
+    lines.push(
+      `${chalk.bold("Account Addresses:")}\n  ${chalk.red(
+        `- ${removed.length} removed`
+      )}\n  ${chalk.green(`+ ${added.length} added`)} (${
+        after.accountAddresses.length
+      } total)`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format webhooks as a table with one row per webhook
+ * The wide format adds the status, transaction types and auth header columns,
+ * and a labels column is added when any webhook has a label
+ * @param webhooks Webhooks to format
+ * @param wide Whether to include the extra columns
+ * @param labels Label names by webhook ID
+ * @returns Formatted table
+ */
+function formatWebhookTable(
+  webhooks: Webhook[],
+  wide: boolean,
+  labels: Record<string, string[]>
+): string {
+  const labelled = webhooks.some((w) => labels[w.webhookID]?.length);
+  const withLabels = (headers: string[], rows: string[][]) =>
+    labelled
+      ? formatTable(
+          [headers[0], "LABELS", ...headers.slice(1)],
+          rows.map((row, i) => [
+            row[0],
+            (labels[webhooks[i].webhookID] || []).join(",") || "-",
+            ...row.slice(1),
+          ])
+        )
+      : formatTable(headers, rows);
+
+  if (wide) {
+    return withLabels(
+      ["ID", "TYPE", "STATUS", "AUTH", "ADDRESSES", "URL", "TRANSACTION TYPES"],
+      webhooks.map((w) => [
+        w.webhookID,
+        w.webhookType,
+        w.txnStatus || "-",
+        w.authHeader ? "yes" : "no",
+        String(w.accountAddresses.length),
+        w.webhookURL,
+        w.transactionTypes.join(","),
+      ])
+    );
+  }
+
+  return withLabels(
+    ["ID", "TYPE", "TYPES", "ADDRESSES", "URL"],
+    webhooks.map((w) => [
+      w.webhookID,
+      w.webhookType,
+      String(w.transactionTypes.length),
+      String(w.accountAddresses.length),
+      w.webhookURL,
+    ])
+  );
+}
+
+/**
+ * Prepares a webhook for machine output
+ * @param webhook Webhook
+ * @param labels Local labels of the webhook
+ * @returns Webhook with the auth header redacted unless --show-secrets was
+ * given, and its labels if it has any
+ */
+function redactWebhook(
+  webhook: Webhook,
+  labels: string[] = []
+): Webhook & { labels?: string[] } {
+  return {
+    ...webhook,
+    ...(webhook.authHeader
+      ? { authHeader: displaySecret(webhook.authHeader) }
+      : {}),
+    ...(labels.length > 0 ? { labels } : {}),
+  };
+}
+
+/**
+ * Prints a list of webhooks in the selected output format
+ * @param webhooks Webhooks to print
+ * @param labels Label names by webhook ID
+ */
+export function printWebhooks(
+  webhooks: Webhook[],
+  labels: Record<string, string[]> = {}
+): void {
+  switch (outputFormat) {
+    case "json":
+    case "yaml":
+      printData(webhooks.map((w) => redactWebhook(w, labels[w.webhookID])));
+      break;
+    case "table":
+    case "wide":
+      info(formatWebhookTable(webhooks, outputFormat === "wide", labels));
+      break;
+    default:
+      webhooks.forEach((webhook, index) => {
+        info(chalk.green(`\n--- Webhook ${index + 1} ---`));
+        info(formatWebhook(webhook, labels[webhook.webhookID]));
+      });
+  }
+}
+
+/**
+ * Prints a single webhook in the selected output format
+ * @param webhook Webhook to print
+ * @param labels Local labels of the webhook
+ */
+export function printWebhook(webhook: Webhook, labels: string[] = []): void {
+  switch (outputFormat) {
+    case "json":
+    case "yaml":
+      printData(redactWebhook(webhook, labels));
+      break;
+    case "table":
+    case "wide":
+      info(
+        formatWebhookTable([webhook], outputFormat === "wide", {
+          [webhook.webhookID]: labels,
+        })
+      );
+      break;
+    default:
+      info(formatWebhook(webhook, labels));
+  }
+}
+
+/**
+ * Reports an error and exits
+ * Machine formats write the error to stderr as JSON
+ * @param message Error message
+ * @param hint Optional hint on how to fix the error
+ */
+export function fail(message: string, hint?: string): never {
+  message = scrubSecrets(message);
+  if (isMachineOutput()) {
+    console.error(JSON.stringify({ error: { message, hint } }));
+  } else {
+    console.error(chalk.red(`Error: ${message}`));
+    if (hint) {
+      console.error(hint);
+    }
+  }
+  process.exit(EXIT_CODES.error);
+}
+
+/**
+ * Fail with every rule a webhook breaks
+ * @param violations Rule violations, see findRuleViolations
+ */
+export function failOnRuleViolations(violations: RuleViolation[]): void {
+  if (violations.length > 0) {
+    const hints = violations.filter((v) => v.hint).map((v) => v.hint);
+    fail(
+      violations.map((v) => v.message).join("\n"),
+      hints.length > 0 ? hints.join("\n") : undefined
+    );
+  }
+}
+
+/**
+ * Reports an error caught while running a command and exits
+ * API errors exit with the code for their kind (see EXIT_CODES)
+ * @param context What the command was doing, e.g. "Error fetching webhooks:"
+ * @param error The caught error
+ */
+export function exitWithError(context: string, error: unknown): never {
+  // Messages can carry request URLs, so drop any API key from them
+  const message = scrubSecrets(
+    error instanceof Error ? error.message : String(error)
+  );
+  const apiError = error instanceof HeliusApiError ? error : undefined;
+  const { code, hint } = apiError
+    ? API_ERROR_HANDLING[apiError.kind]
+    : error instanceof MissingInputError
+    ? { code: EXIT_CODES.missingInput, hint: error.hint }
+    : { code: EXIT_CODES.error, hint: undefined };
+
+  if (isMachineOutput()) {
+    console.error(
+      JSON.stringify({
+        error: {
+          context: context.replace(/:$/, ""),
+          message,
+          kind: apiError?.kind,
+          status: apiError?.status,
+          requestId: apiError?.requestId,
+          hint,
+        },
+      })
+    );
+  } else {
+    console.error(chalk.red(context), message);
+    if (apiError?.requestId) {
+      console.error(chalk.dim(`Request ID: ${apiError.requestId}`));
+    }
+    if (hint) {
+      console.error(hint);
+    }
+  }
+  process.exit(code);
+}
@@ -0,0 +1,367 @@
+import { PayloadFormat } from "./payloads";
+
+// Shape of a payload field, mirroring the payload types in payloads.ts
+// Object fields not listed in a schema are allowed, since Helius adds fields over time
+type Schema =
+  | "string"
+  | "number"
+  | "boolean"
+  | "any"
+  | { nullable: Schema }
+  | { array: Schema }
+  | { object: Record<string, Schema>; optional?: string[] };
+
+// A field of a delivery that does not match the schema
+export interface PayloadIssue {
+  // Path of the field, e.g. [0].events.nft.amount
+  path: string;
+  message: string;
+}
+
+// Result of validating one delivery body
+export interface PayloadValidation {
+  format?: PayloadFormat;
+  transactions: number;
+  issues: PayloadIssue[];
+}
+
+const RAW_TOKEN_AMOUNT: Schema = {
+  object: { tokenAmount: "string", decimals: "number" },
+};
+
+const TOKEN_SWAP_AMOUNT: Schema = {
+  object: {
+    userAccount: "string",
+    tokenAccount: "string",
+    mint: "string",
+    rawTokenAmount: RAW_TOKEN_AMOUNT,
+  },
+};
+
+const NATIVE_AMOUNT: Schema = {
+  object: { account: "string", amount: "string" },
+};
+
+const INNER_INSTRUCTION: Schema = {
+  object: {
+    accounts: { array: "string" },
+    data: "string",
+    programId: "string",
+  },
+};
+
+const ENHANCED_TRANSACTION: Schema = {
+  object: {
+    description: "string",
+    type: "string",
+    source: "string",
+    fee: "number",
+    feePayer: "string",
+    signature: "string",
+    slot: "number",
+    timestamp: "number",
+    nativeTransfers: {
+      array: {
+        object: {
+          fromUserAccount: "string",
+          toUserAccount: "string",
+          amount: "number",
+        },
+      },
+    },
+    tokenTransfers: {
+      array: {
+        object: {
+          fromUserAccount: "string",
+          toUserAccount: "string",
+          fromTokenAccount: "string",
+          toTokenAccount: "string",
+          tokenAmount: "number",
+          mint: "string",
+          tokenStandard: "string",
+        },
+        optional: ["tokenStandard"],
+      },
+    },
+    accountData: {
+      array: {
+        object: {
+          account: "string",
+          nativeBalanceChange: "number",
+          tokenBalanceChanges: {
+            array: {
+              object: {
+                userAccount: "string",
+                tokenAccount: "string",
+                mint: "string",
+                rawTokenAmount: RAW_TOKEN_AMOUNT,
+              },
+            },
+          },
+        },
+      },
+    },
+    transactionError: "any",
+    instructions: {
+      array: {
+        object: {
+          accounts: { array: "string" },
+          data: "string",
+          programId: "string",
+          innerInstructions: { array: INNER_INSTRUCTION },
+        },
+      },
+    },
+    events: {
+      object: {
+        nft: {
+          object: {
+            description: "string",
+            type: "string",
+            source: "string",
+            amount: "number",
+            fee: "number",
+            feePayer: "string",
+            signature: "string",
+            slot: "number",
+            timestamp: "number",
+            saleType: "string",
+            buyer: "string",
+            seller: "string",
+            staker: "string",
+            nfts: {
+              array: { object: { mint: "string", tokenStandard: "string" } },
+            },
+          },
+        },
+        swap: {
+          object: {
+            nativeInput: { nullable: NATIVE_AMOUNT },
+            nativeOutput: { nullable: NATIVE_AMOUNT },
+            tokenInputs: { array: TOKEN_SWAP_AMOUNT },
+            tokenOutputs: { array: TOKEN_SWAP_AMOUNT },
+            tokenFees: { array: TOKEN_SWAP_AMOUNT },
+            nativeFees: { array: NATIVE_AMOUNT },
+            innerSwaps: { array: "any" },
+          },
+        },
+      },
+      optional: ["nft", "swap"],
+    },
+  },
+};
+
+const RAW_TRANSACTION: Schema = {
+  object: {
+    blockTime: "number",
+    indexWithinBlock: "number",
+    slot: "number",
+    meta: {
+      object: {
+        err: "any",
+        fee: "number",
+        innerInstructions: { array: "any" },
+        loadedAddresses: {
+          object: {
+            readonly: { array: "string" },
+            writable: { array: "string" },
+          },
+        },
+        logMessages: { array: "string" },
+        postBalances: { array: "number" },
+        preBalances: { array: "number" },
+        postTokenBalances: { array: "any" },
+        preTokenBalances: { array: "any" },
+        rewards: { array: "any" },
+        status: "any",
+      },
+      optional: ["loadedAddresses", "status"],
+    },
+    transaction: {
+      object: {
+        message: {
+          object: {
+            accountKeys: { array: "string" },
+            header: {
+              object: {
+                numReadonlySignedAccounts: "number",
+                numReadonlyUnsignedAccounts: "number",
+                numRequiredSignatures: "number",
+              },
+            },
+            instructions: {
+              array: {
+                object: {
+                  accounts: { array: "number" },
+                  data: "string",
+                  programIdIndex: "number",
+                },
+              },
+            },
+            recentBlockhash: "string",
+          },
+        },
+        signatures: { array: "string" },
+      },
+    },
+  },
+};
+
+const DISCORD_MESSAGE: Schema = {
+  object: {
+    username: "string",
+    embeds: {
+      array: {
+        object: {
+          title: "string",
+          description: "string",
+          url: "string",
+          color: "number",
+          fields: {
+            array: {
+              object: { name: "string", value: "string", inline: "boolean" },
+              optional: ["inline"],
+            },
+          },
+          timestamp: "string",
+        },
+        optional: ["description", "url", "color", "fields", "timestamp"],
+      },
+    },
+  },
+  optional: ["username"],
+};
+
+/**
+ * Describes the JSON type of a value, for error messages
+ * @param value Value
+ * @returns JSON type name
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Checks a value against a schema, collecting every mismatch
+ * @param value Value to check
+ * @param schema Expected shape
+ * @param path Path of the value
+ * @param issues Collected issues
+ */
+function check(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  issues: PayloadIssue[]
+): void {
+  if (schema === "any") return;
+
+  if (typeof schema === "string") {
+    if (typeof value !== schema) {
+      issues.push({
+        path,
+        message: `expected ${schema}, got ${typeOf(value)}`,
+      });
+    }
+    return;
+  }
+
+  if ("nullable" in schema) {
+    if (value !== null) check(value, schema.nullable, path, issues);
+    return;
+  }
+
+  if ("array" in schema) {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, got ${typeOf(value)}` });
+      return;
+    }
+    value.forEach((item, i) =>
+      check(item, schema.array, `${path}[${i}]`, issues)
+    );
+    return;
+  }
+
+  if (typeOf(value) !== "object") {
+    issues.push({ path, message: `expected object, got ${typeOf(value)}` });
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  for (const [key, field] of Object.entries(schema.object)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (!(key in record)) {
+      if (!schema.optional?.includes(key)) {
+        issues.push({ path: fieldPath, message: "missing" });
+      }
+      continue;
+    }
+    check(record[key], field, fieldPath, issues);
+  }
+}
+
+/**
+ * Guesses the format of a delivery body from its shape
+ * @param body Delivery body
+ * @returns Delivery format, or undefined if the body matches none
+ */
+export function detectPayloadFormat(body: unknown): PayloadFormat | undefined {
+  if (Array.isArray(body)) {
+    const first = body[0];
+    if (first && typeof first === "object") {
+      return "transaction" in first ? "raw" : "enhanced";
+    }
+    return body.length === 0 ? "enhanced" : undefined;
+  }
+  if (body && typeof body === "object" && "embeds" in body) {
+    return "discord";
+  }
+  return undefined;
+}
+
+/**
+ * Validates a delivery body against the payload schema of its format
+ * @param body Delivery body
+ * @param format Expected format; detected from the body if not given
+ * @returns Detected format, number of transactions and every issue found
+ */
+export function validatePayload(
+  body: unknown,
+  format?: PayloadFormat
+): PayloadValidation {
+  const detected = format || detectPayloadFormat(body);
+  const issues: PayloadIssue[] = [];
+
+  if (!detected) {
+    return {
+      transactions: 0,
+      issues: [
+        {
+          path: "",
+          message:
+            "not a Helius delivery (expected an array of transactions or a Discord message)",
+        },
+      ],
+    };
+  }
+
+  if (detected === "discord") {
+    check(body, DISCORD_MESSAGE, "", issues);
+    const embeds = (body as { embeds?: unknown }).embeds;
+    return {
+      format: detected,
+      transactions: Array.isArray(embeds) ? embeds.length : 0,
+      issues,
+    };
+  }
+
+  const schema = detected === "raw" ? RAW_TRANSACTION : ENHANCED_TRANSACTION;
+  check(body, { array: schema }, "", issues);
+
+  return {
+    format: detected,
+    transactions: Array.isArray(body) ? body.length : 0,
+    issues,
+  };
+}
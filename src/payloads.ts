@@ -0,0 +1,738 @@
+import * as crypto from "crypto";
+import { encodeBase58 } from "./base58";
+
+// Delivery formats, by webhook type family
+export const PAYLOAD_FORMATS = ["enhanced", "raw", "discord"];
+
+export type PayloadFormat = "enhanced" | "raw" | "discord";
+
+// A SOL transfer in an enhanced transaction, in lamports
+export interface NativeTransfer {
+  fromUserAccount: string;
+  toUserAccount: string;
+  amount: number;
+}
+
+// A token transfer in an enhanced transaction; mints and burns leave one side empty
+export interface TokenTransfer {
+  fromUserAccount: string;
+  toUserAccount: string;
+  fromTokenAccount: string;
+  toTokenAccount: string;
+  tokenAmount: number;
+  mint: string;
+  tokenStandard?: string;
+}
+
+// A token amount in base units, as a string to keep its precision
+export interface RawTokenAmount {
+  tokenAmount: string;
+  decimals: number;
+}
+
+export interface TokenBalanceChange {
+  userAccount: string;
+  tokenAccount: string;
+  mint: string;
+  rawTokenAmount: RawTokenAmount;
+}
+
+// Balance changes of one account touched by a transaction
+export interface AccountData {
+  account: string;
+  nativeBalanceChange: number;
+  tokenBalanceChanges: TokenBalanceChange[];
+}
+
+export interface InnerInstruction {
+  accounts: string[];
+  data: string;
+  programId: string;
+}
+
+export interface Instruction extends InnerInstruction {
+  innerInstructions: InnerInstruction[];
+}
+
+// NFT activity of a transaction (events.nft)
+export interface NftEvent {
+  description: string;
+  type: string;
+  source: string;
+  amount: number;
+  fee: number;
+  feePayer: string;
+  signature: string;
+  slot: number;
+  timestamp: number;
+  saleType: string;
+  buyer: string;
+  seller: string;
+  staker: string;
+  nfts: { mint: string; tokenStandard: string }[];
+}
+
+export interface NativeAmount {
+  account: string;
+  amount: string;
+}
+
+export interface TokenSwapAmount {
+  userAccount: string;
+  tokenAccount: string;
+  mint: string;
+  rawTokenAmount: RawTokenAmount;
+}
+
+// Swap activity of a transaction (events.swap)
+export interface SwapEvent {
+  nativeInput: NativeAmount | null;
+  nativeOutput: NativeAmount | null;
+  tokenInputs: TokenSwapAmount[];
+  tokenOutputs: TokenSwapAmount[];
+  tokenFees: TokenSwapAmount[];
+  nativeFees: NativeAmount[];
+  innerSwaps: unknown[];
+}
+
+// Parsed events of a transaction; other kinds (e.g. compressed) are passed through
+export interface TransactionEvents {
+  nft?: NftEvent;
+  swap?: SwapEvent;
+  [kind: string]: unknown;
+}
+
+// A transaction in the enhanced format, as delivered to enhanced* webhooks
+export interface EnhancedTransaction {
+  description: string;
+  type: string;
+  source: string;
+  fee: number;
+  feePayer: string;
+  signature: string;
+  slot: number;
+  timestamp: number;
+  nativeTransfers: NativeTransfer[];
+  tokenTransfers: TokenTransfer[];
+  accountData: AccountData[];
+  transactionError: unknown;
+  instructions: Instruction[];
+  events: TransactionEvents;
+}
+
+export interface RawInstruction {
+  accounts: number[];
+  data: string;
+  programIdIndex: number;
+}
+
+export interface RawTransactionMeta {
+  err: unknown;
+  fee: number;
+  innerInstructions: unknown[];
+  loadedAddresses?: { readonly: string[]; writable: string[] };
+  logMessages: string[];
+  postBalances: number[];
+  preBalances: number[];
+  postTokenBalances: unknown[];
+  preTokenBalances: unknown[];
+  rewards: unknown[];
+  status?: unknown;
+}
+
+// A transaction in the raw format, as delivered to raw* webhooks
+export interface RawTransaction {
+  blockTime: number;
+  indexWithinBlock: number;
+  slot: number;
+  meta: RawTransactionMeta;
+  transaction: {
+    message: {
+      accountKeys: string[];
+      header: {
+        numReadonlySignedAccounts: number;
+        numReadonlyUnsignedAccounts: number;
+        numRequiredSignatures: number;
+      };
+      instructions: RawInstruction[];
+      recentBlockhash: string;
+    };
+    signatures: string[];
+  };
+}
+
+export interface DiscordEmbed {
+  title: string;
+  description: string;
+  url: string;
+  color: number;
+  fields: { name: string; value: string; inline?: boolean }[];
+  timestamp: string;
+}
+
+// A message as delivered to discord* webhooks
+export interface DiscordMessage {
+  username?: string;
+  embeds: DiscordEmbed[];
+}
+
+// Delivery bodies of each format
+export type EnhancedPayload = EnhancedTransaction[];
+export type RawPayload = RawTransaction[];
+export type WebhookPayload = EnhancedPayload | RawPayload | DiscordMessage;
+
+// What kind of activity a transaction type stands for, which decides the sample's transfers and events
+type SampleKind = "nft" | "swap" | "transfer" | "token" | "stake" | "other";
+
+// How samples of one transaction type look
+interface SampleSpec {
+  kind: SampleKind;
+  source: string;
+  programId: string;
+}
+
+// Programs the samples are attributed to
+const PROGRAMS = {
+  system: "11111111111111111111111111111111",
+  token: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+  stake: "Stake11111111111111111111111111111111111111",
+  vote: "Vote111111111111111111111111111111111111111",
+  magicEden: "M2mx93ekt1fmXSVkTrUL9xVFHkmME8HTUi5Cyc5aF7K",
+  candyMachine: "CndyV3LdqHUfDLmE5naZjVN8rBZz4tqhdefbAnjHG3JR",
+  auctionHouse: "hausS13jsjafwWwGqZTUQRmWyvyxn9EQpqMwV1PBBmk",
+  jupiter: "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4",
+};
+
+const SAMPLE_SPECS: Record<string, SampleSpec> = {
+  NFT_SALE: {
+    kind: "nft",
+    source: "MAGIC_EDEN",
+    programId: PROGRAMS.magicEden,
+  },
+  NFT_LISTING: {
+    kind: "nft",
+    source: "MAGIC_EDEN",
+    programId: PROGRAMS.magicEden,
+  },
+  NFT_CANCEL_LISTING: {
+    kind: "nft",
+    source: "MAGIC_EDEN",
+    programId: PROGRAMS.magicEden,
+  },
+  NFT_MINT: {
+    kind: "nft",
+    source: "CANDY_MACHINE_V3",
+    programId: PROGRAMS.candyMachine,
+  },
+  NFT_AUCTION_CREATED: {
+    kind: "nft",
+    source: "METAPLEX",
+    programId: PROGRAMS.auctionHouse,
+  },
+  NFT_BID: {
+    kind: "nft",
+    source: "METAPLEX",
+    programId: PROGRAMS.auctionHouse,
+  },
+  NFT_AUCTION_COMPLETE: {
+    kind: "nft",
+    source: "METAPLEX",
+    programId: PROGRAMS.auctionHouse,
+  },
+  SWAP: { kind: "swap", source: "JUPITER", programId: PROGRAMS.jupiter },
+  SWAP_SOL: { kind: "swap", source: "JUPITER", programId: PROGRAMS.jupiter },
+  SWAP_TOKEN: { kind: "swap", source: "JUPITER", programId: PROGRAMS.jupiter },
+  TOKEN_MINT: {
+    kind: "token",
+    source: "SOLANA_PROGRAM_LIBRARY",
+    programId: PROGRAMS.token,
+  },
+  TOKEN_BURN: {
+    kind: "token",
+    source: "SOLANA_PROGRAM_LIBRARY",
+    programId: PROGRAMS.token,
+  },
+  TRANSFER: {
+    kind: "transfer",
+    source: "SOLANA_PROGRAM_LIBRARY",
+    programId: PROGRAMS.token,
+  },
+  SOL_TRANSFER: {
+    kind: "transfer",
+    source: "SYSTEM_PROGRAM",
+    programId: PROGRAMS.system,
+  },
+  STAKE: { kind: "stake", source: "STAKE_PROGRAM", programId: PROGRAMS.stake },
+  STAKE_DELEGATION: {
+    kind: "stake",
+    source: "STAKE_PROGRAM",
+    programId: PROGRAMS.stake,
+  },
+  UNSTAKE: {
+    kind: "stake",
+    source: "STAKE_PROGRAM",
+    programId: PROGRAMS.stake,
+  },
+  VOTE: {
+    kind: "other",
+    source: "SOLANA_PROGRAM_LIBRARY",
+    programId: PROGRAMS.vote,
+  },
+  UNKNOWN: { kind: "other", source: "UNKNOWN", programId: PROGRAMS.system },
+};
+
+// Transaction types sampled for ANY
+export const ANY_SAMPLE_TYPES = ["NFT_SALE", "SWAP", "TRANSFER"];
+
+// Seed of samples when none is given, so fixtures are reproducible
+export const DEFAULT_SAMPLE_SEED = "helius";
+
+// Mint of wrapped SOL and USDC, used by swap samples
+const WSOL_MINT = "So11111111111111111111111111111111111111112";
+const USDC_MINT = "EPjFWdd5AufqSSo9M4vKxkrcXfzQaDQGRSd2dbjNGTiZ";
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+// Fee of a single-signature transaction, in lamports
+const BASE_FEE = 5000;
+
+// Options for building a sample payload
+export interface SampleOptions {
+  // Seed the generated signatures, accounts and amounts are derived from (default DEFAULT_SAMPLE_SEED)
+  seed?: string;
+  // Addresses the sample's user accounts are taken from, e.g. the webhook's account addresses
+  addresses?: string[];
+}
+
+/**
+ * Gets the delivery format of a webhook type
+ * @param webhookType Webhook type, e.g. enhancedDevnet
+ * @returns Delivery format
+ */
+export function payloadFormat(webhookType: string): PayloadFormat {
+  if (webhookType.startsWith("raw")) return "raw";
+  if (webhookType.startsWith("discord")) return "discord";
+  return "enhanced";
+}
+
+/**
+ * Creates a generator of values derived from a seed
+ * The same seed and label always give the same value
+ * @param seed Seed
+ * @returns Value generators
+ */
+function seeded(seed: string) {
+  const bytes = (label: string, length: number): Buffer => {
+    const out: Buffer[] = [];
+    for (let i = 0; out.length * 32 < length; i++) {
+      out.push(
+        crypto.createHash("sha256").update(`${seed}:${label}:${i}`).digest()
+      );
+    }
+    return Buffer.concat(out).subarray(0, length);
+  };
+  return {
+    address: (label: string) => encodeBase58(bytes(label, 32)),
+    signature: (label: string) => encodeBase58(bytes(label, 64)),
+    int: (label: string, min: number, max: number) =>
+      min + (bytes(label, 6).readUIntBE(0, 6) % (max - min + 1)),
+  };
+}
+
+/**
+ * Builds one transaction in the enhanced format
+ * @param transactionType Transaction type
+ * @param options Sample options
+ * @returns Enhanced transaction
+ */
+function enhancedTransaction(
+  transactionType: string,
+  options: SampleOptions
+): EnhancedTransaction {
+  const spec = SAMPLE_SPECS[transactionType] || SAMPLE_SPECS.UNKNOWN;
+  const gen = seeded(
+    `${options.seed ?? DEFAULT_SAMPLE_SEED}:${transactionType}`
+  );
+  const [user, counterparty] = [
+    options.addresses?.[0] || gen.address("user"),
+    options.addresses?.[1] || gen.address("counterparty"),
+  ];
+  const signature = gen.signature("signature");
+  const slot = gen.int("slot", 250_000_000, 300_000_000);
+  const timestamp = gen.int("timestamp", 1_700_000_000, 1_760_000_000);
+  const mint = gen.address("mint");
+  const amount = gen.int("amount", 1, 100) * (LAMPORTS_PER_SOL / 10);
+  const sol = amount / LAMPORTS_PER_SOL;
+
+  let description = "";
+  const nativeTransfers: NativeTransfer[] = [];
+  const tokenTransfers: TokenTransfer[] = [];
+  const events: TransactionEvents = {};
+
+  const tokenTransfer = (
+    from: string,
+    to: string,
+    tokenMint: string,
+    tokenAmount: number,
+    tokenStandard = "Fungible"
+  ): TokenTransfer => ({
+    fromUserAccount: from,
+    toUserAccount: to,
+    fromTokenAccount: from ? gen.address(`ata:${from}:${tokenMint}`) : "",
+    toTokenAccount: to ? gen.address(`ata:${to}:${tokenMint}`) : "",
+    tokenAmount,
+    mint: tokenMint,
+    tokenStandard,
+  });
+
+  switch (spec.kind) {
+    case "nft": {
+      const sale = ["NFT_SALE", "NFT_AUCTION_COMPLETE"].includes(
+        transactionType
+      );
+      const minted = transactionType === "NFT_MINT";
+      const buyer = sale || minted || transactionType === "NFT_BID" ? user : "";
+      const seller = sale ? counterparty : minted || buyer ? "" : user;
+      if (sale) {
+        nativeTransfers.push({
+          fromUserAccount: buyer,
+          toUserAccount: seller,
+          amount,
+        });
+        tokenTransfers.push(
+          tokenTransfer(seller, buyer, mint, 1, "NonFungible")
+        );
+        description = `${seller} sold ${mint} to ${buyer} for ${sol} SOL on ${spec.source}.`;
+      } else if (minted) {
+        nativeTransfers.push({
+          fromUserAccount: buyer,
+          toUserAccount: counterparty,
+          amount,
+        });
+        tokenTransfers.push(tokenTransfer("", buyer, mint, 1, "NonFungible"));
+        description = `${buyer} minted ${mint} for ${sol} SOL on ${spec.source}.`;
+      } else {
+        const actions: Record<string, string> = {
+          NFT_LISTING: `listed ${mint} for ${sol} SOL`,
+          NFT_CANCEL_LISTING: `cancelled the listing of ${mint}`,
+          NFT_AUCTION_CREATED: `created an auction for ${mint} starting at ${sol} SOL`,
+          NFT_BID: `bid ${sol} SOL on ${mint}`,
+        };
+        description = `${buyer || seller} ${actions[transactionType]} on ${
+          spec.source
+        }.`;
+      }
+      events.nft = {
+        description,
+        type: transactionType,
+        source: spec.source,
+        amount,
+        fee: BASE_FEE,
+        feePayer: user,
+        signature,
+        slot,
+        timestamp,
+        saleType:
+          transactionType === "NFT_SALE"
+            ? "INSTANT_SALE"
+            : transactionType.startsWith("NFT_AUCTION") ||
+              transactionType === "NFT_BID"
+            ? "AUCTION"
+            : "",
+        buyer,
+        seller,
+        staker: "",
+        nfts: [{ mint, tokenStandard: "NonFungible" }],
+      };
+      break;
+    }
+    case "swap": {
+      const pool = counterparty;
+      const usdc = gen.int("usdc", 10, 10_000);
+      const tokenInput = transactionType === "SWAP_TOKEN";
+      const inputMint = tokenInput ? mint : WSOL_MINT;
+      if (tokenInput) {
+        tokenTransfers.push(tokenTransfer(user, pool, mint, usdc * 10));
+      } else {
+        nativeTransfers.push({
+          fromUserAccount: user,
+          toUserAccount: pool,
+          amount,
+        });
+      }
+      tokenTransfers.push(tokenTransfer(pool, user, USDC_MINT, usdc));
+      const rawAmount = (value: number, decimals: number) => ({
+        tokenAmount: String(value * 10 ** decimals),
+        decimals,
+      });
+      events.swap = {
+        nativeInput: tokenInput
+          ? null
+          : { account: user, amount: String(amount) },
+        nativeOutput: null,
+        tokenInputs: tokenInput
+          ? [
+              {
+                userAccount: user,
+                tokenAccount: gen.address(`ata:${user}:${inputMint}`),
+                mint: inputMint,
+                rawTokenAmount: rawAmount(usdc * 10, 6),
+              },
+            ]
+          : [],
+        tokenOutputs: [
+          {
+            userAccount: user,
+            tokenAccount: gen.address(`ata:${user}:${USDC_MINT}`),
+            mint: USDC_MINT,
+            rawTokenAmount: rawAmount(usdc, 6),
+          },
+        ],
+        tokenFees: [],
+        nativeFees: [],
+        innerSwaps: [],
+      };
+      description = `${user} swapped ${
+        tokenInput ? `${usdc * 10} ${mint}` : `${sol} SOL`
+      } for ${usdc} USDC.`;
+      break;
+    }
+    case "transfer":
+      if (transactionType === "SOL_TRANSFER") {
+        nativeTransfers.push({
+          fromUserAccount: user,
+          toUserAccount: counterparty,
+          amount,
+        });
+        description = `${user} transferred ${sol} SOL to ${counterparty}.`;
+      } else {
+        tokenTransfers.push(tokenTransfer(user, counterparty, mint, 100));
+        description = `${user} transferred 100 ${mint} to ${counterparty}.`;
+      }
+      break;
+    case "token":
+      if (transactionType === "TOKEN_MINT") {
+        tokenTransfers.push(tokenTransfer("", user, mint, 1000));
+        description = `${user} minted 1000 ${mint}.`;
+      } else {
+        tokenTransfers.push(tokenTransfer(user, "", mint, 1000));
+        description = `${user} burned 1000 ${mint}.`;
+      }
+      break;
+    case "stake": {
+      const stakeAccount = gen.address("stakeAccount");
+      const [from, to] =
+        transactionType === "UNSTAKE"
+          ? [stakeAccount, user]
+          : [user, stakeAccount];
+      nativeTransfers.push({
+        fromUserAccount: from,
+        toUserAccount: to,
+        amount,
+      });
+      description = `${user} ${
+        transactionType === "UNSTAKE" ? "unstaked" : "staked"
+      } ${sol} SOL.`;
+      break;
+    }
+    default:
+      if (transactionType === "VOTE") {
+        description = `${user} voted.`;
+      }
+  }
+
+  // Net balance changes of every account touched by the transfers
+  const accounts = new Map<string, number>([[user, -BASE_FEE]]);
+  for (const transfer of nativeTransfers) {
+    const { fromUserAccount: from, toUserAccount: to } = transfer;
+    accounts.set(from, (accounts.get(from) || 0) - transfer.amount);
+    accounts.set(to, (accounts.get(to) || 0) + transfer.amount);
+  }
+  for (const transfer of tokenTransfers) {
+    for (const account of [transfer.fromUserAccount, transfer.toUserAccount]) {
+      if (account && !accounts.has(account)) accounts.set(account, 0);
+    }
+  }
+
+  return {
+    description,
+    type: transactionType,
+    source: spec.source,
+    fee: BASE_FEE,
+    feePayer: user,
+    signature,
+    slot,
+    timestamp,
+    nativeTransfers,
+    tokenTransfers,
+    accountData: [...accounts].map(([account, nativeBalanceChange]) => ({
+      account,
+      nativeBalanceChange,
+      tokenBalanceChanges: tokenTransfers
+        .filter(
+          (t) => t.fromUserAccount === account || t.toUserAccount === account
+        )
+        .map((t) => ({
+          userAccount: account,
+          tokenAccount:
+            t.fromUserAccount === account
+              ? t.fromTokenAccount
+              : t.toTokenAccount,
+          mint: t.mint,
+          rawTokenAmount: {
+            tokenAmount: String(
+              t.fromUserAccount === account ? -t.tokenAmount : t.tokenAmount
+            ),
+            decimals: 0,
+          },
+        })),
+    })),
+    transactionError: null,
+    instructions: [
+      {
+        accounts: [...accounts.keys()],
+        data: gen.address("data"),
+        programId: spec.programId,
+        innerInstructions: [],
+      },
+    ],
+    events,
+  };
+}
+
+/**
+ * Builds one transaction in the raw format
+ * Derived from the enhanced sample, so both formats describe the same transaction
+ * @param transactionType Transaction type
+ * @param options Sample options
+ * @returns Raw transaction
+ */
+function rawTransaction(
+  transactionType: string,
+  options: SampleOptions
+): RawTransaction {
+  const tx = enhancedTransaction(transactionType, options);
+  const gen = seeded(
+    `${options.seed ?? DEFAULT_SAMPLE_SEED}:${transactionType}`
+  );
+  const accountKeys = [
+    ...tx.accountData.map((a) => a.account),
+    tx.instructions[0].programId,
+  ];
+  const preBalances = tx.accountData.map(
+    (_, i) => gen.int(`balance:${i}`, 20, 1000) * LAMPORTS_PER_SOL
+  );
+  const postBalances = tx.accountData.map(
+    (a, i) => preBalances[i] + a.nativeBalanceChange
+  );
+  const program = tx.instructions[0].programId;
+
+  return {
+    blockTime: tx.timestamp,
+    indexWithinBlock: gen.int("index", 0, 2000),
+    slot: tx.slot,
+    meta: {
+      err: null,
+      fee: tx.fee,
+      innerInstructions: [],
+      loadedAddresses: { readonly: [], writable: [] },
+      logMessages: [
+        `Program ${program} invoke [1]`,
+        `Program ${program} success`,
+      ],
+      postBalances: [...postBalances, 1],
+      preBalances: [...preBalances, 1],
+      postTokenBalances: [],
+      preTokenBalances: [],
+      rewards: [],
+      status: { Ok: null },
+    },
+    transaction: {
+      message: {
+        accountKeys,
+        header: {
+          numReadonlySignedAccounts: 0,
+          numReadonlyUnsignedAccounts: 1,
+          numRequiredSignatures: 1,
+        },
+        instructions: [
+          {
+            accounts: tx.accountData.map((_, i) => i),
+            data: tx.instructions[0].data,
+            programIdIndex: accountKeys.length - 1,
+          },
+        ],
+        recentBlockhash: gen.address("blockhash"),
+      },
+      signatures: [tx.signature],
+    },
+  };
+}
+
+/**
+ * Builds a Discord embed announcing a transaction
+ * @param transactionType Transaction type
+ * @param options Sample options
+ * @returns Discord embed
+ */
+function discordEmbed(
+  transactionType: string,
+  options: SampleOptions
+): DiscordEmbed {
+  const tx = enhancedTransaction(transactionType, options);
+  return {
+    title: transactionType,
+    description: tx.description,
+    url: `https://xray.helius.xyz/tx/${tx.signature}`,
+    color: 0xe84125,
+    fields: [
+      { name: "Source", value: tx.source, inline: true },
+      { name: "Fee Payer", value: tx.feePayer, inline: true },
+      { name: "Signature", value: tx.signature },
+    ],
+    timestamp: new Date(tx.timestamp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Expands ANY into the transaction types sampled for it
+ * @param transactionTypes Transaction types
+ * @returns De-duplicated transaction types without ANY
+ */
+export function expandSampleTypes(transactionTypes: string[]): string[] {
+  return [
+    ...new Set(
+      transactionTypes.flatMap((t) => (t === "ANY" ? ANY_SAMPLE_TYPES : [t]))
+    ),
+  ];
+}
+
+/**
+ * Builds a realistic delivery body carrying one transaction of each given type
+ * Enhanced and raw deliveries are arrays of transactions; Discord gets one
+ * message with an embed per transaction
+ * @param format Delivery format
+ * @param transactionTypes Transaction types, e.g. NFT_SALE
+ * @param options Sample options
+ * @returns Delivery body
+ */
+export function samplePayload(
+  format: PayloadFormat,
+  transactionTypes: string | string[],
+  options: SampleOptions = {}
+): WebhookPayload {
+  const types = Array.isArray(transactionTypes)
+    ? transactionTypes
+    : [transactionTypes];
+  switch (format) {
+    case "raw":
+      return types.map((type) => rawTransaction(type, options));
+    case "discord":
+      return {
+        username: "Helius",
+        embeds: types.map((type) => discordEmbed(type, options)),
+      };
+    default:
+      return types.map((type) => enhancedTransaction(type, options));
+  }
+}
@@ -0,0 +1,93 @@
+import inquirer from "inquirer";
+
+// Whether confirmations are answered with yes without asking (--yes)
+let assumeYes = false;
+
+// Whether prompting is disabled (--no-input, or stdin is not a TTY)
+let noInput = false;
+
+/**
+ * Error raised when a value is needed but prompts are disabled
+ */
+export class MissingInputError extends Error {
+  // Name of the missing value, e.g. "apiKey"
+  value: string;
+  // How to provide the value without a prompt
+  hint: string;
+
+  constructor(value: string, hint: string) {
+    super(`Missing value: ${value} (prompts are disabled)`);
+    this.name = "MissingInputError";
+    this.value = value;
+    this.hint = hint;
+  }
+}
+
+/**
+ * Sets how prompts are answered for this run
+ * Prompts are disabled with --no-input, and whenever stdin is not a TTY
+ * @param options Global --yes and --no-input flags
+ */
+export function setInputMode(options: {
+  yes?: boolean;
+  input?: boolean;
+}): void {
+  assumeYes = Boolean(options.yes);
+  noInput = options.input === false || !process.stdin.isTTY;
+}
+
+/**
+ * Checks whether the user can be prompted
+ * @returns True if prompts are enabled
+ */
+export function isInteractive(): boolean {
+  return !noInput;
+}
+
+/**
+ * Fails fast if a value would have to be prompted for while prompts are disabled
+ * @param value Name of the value, for the error message
+ * @param hint How to provide the value without a prompt
+ */
+export function requireInput(value: string, hint: string): void {
+  if (noInput) {
+    throw new MissingInputError(value, hint);
+  }
+}
+
+/**
+ * Asks a yes/no question
+ * --yes answers yes without asking. With prompts disabled, a question whose
+ * default is yes takes the default, and any other question fails, so nothing
+ * destructive happens without --yes or --force
+ * @param message Question
+ * @param defaultAnswer Answer used when the user just presses enter
+ * @returns The answer
+ */
+export async function confirmPrompt(
+  message: string,
+  defaultAnswer: boolean
+): Promise<boolean> {
+  if (assumeYes) {
+    return true;
+  }
+  if (noInput) {
+    if (defaultAnswer) {
+      return true;
+    }
+    throw new MissingInputError(
+      "confirmation",
+      "Pass --yes (or the command's --force) to confirm without a prompt"
+    );
+  }
+
+  const { confirm } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "confirm",
+      message,
+      default: defaultAnswer,
+    },
+  ]);
+  return confirm;
+}
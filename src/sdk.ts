@@ -0,0 +1,92 @@
+// Library entry point (`helius-cli/sdk`)
+// Only exports modules without side effects: nothing here reads the CLI
+// configuration, touches ~/.helius-cli or parses the command line
+
+export {
+  HeliusApiClient,
+  HeliusApiError,
+  webhookNetwork,
+  webhookTypeForNetwork,
+  NETWORKS,
+  DEFAULT_REQUEST_OPTIONS,
+  DEFAULT_BASE_URL,
+  DEFAULT_RPC_URL,
+  DEFAULT_DEVNET_RPC_URL,
+} from "./client";
+export type {
+  Webhook,
+  ApiErrorKind,
+  Network,
+  AssetLookupOptions,
+  RequestOptions,
+  HeliusClientOptions,
+} from "./client";
+export {
+  ASSET_SOURCE_KINDS,
+  COMPRESSED_FILTERS,
+  BURNT_FILTERS,
+  DEFAULT_ASSET_FILTERS,
+} from "./asset-sources";
+export type {
+  AssetSource,
+  AssetSourceKind,
+  AssetFilters,
+} from "./asset-sources";
+export { isValidAddress, findInvalidAddresses } from "./addresses";
+export type { InvalidAddress } from "./addresses";
+export {
+  TRANSACTION_TYPES,
+  TRANSACTION_TYPE_INFO,
+  WEBHOOK_TYPES,
+  TXN_STATUS_OPTIONS,
+  ENCODING_OPTIONS,
+  ENCODING_FORMATS,
+  COMPRESSION_OPTIONS,
+} from "./constants";
+export {
+  findRuleViolations,
+  checkWebhookURL,
+  checkTransactionTypes,
+  allowedTransactionTypes,
+  isDiscordWebhookURL,
+} from "./webhook-rules";
+export type { RuleViolation } from "./webhook-rules";
+export {
+  samplePayload,
+  expandSampleTypes,
+  payloadFormat,
+  PAYLOAD_FORMATS,
+  ANY_SAMPLE_TYPES,
+  DEFAULT_SAMPLE_SEED,
+} from "./payloads";
+export type {
+  PayloadFormat,
+  SampleOptions,
+  WebhookPayload,
+  EnhancedPayload,
+  EnhancedTransaction,
+  NativeTransfer,
+  TokenTransfer,
+  RawTokenAmount,
+  TokenBalanceChange,
+  AccountData,
+  Instruction,
+  InnerInstruction,
+  TransactionEvents,
+  NftEvent,
+  SwapEvent,
+  NativeAmount,
+  TokenSwapAmount,
+  RawPayload,
+  RawTransaction,
+  RawTransactionMeta,
+  RawInstruction,
+  DiscordMessage,
+  DiscordEmbed,
+} from "./payloads";
+export { validatePayload, detectPayloadFormat } from "./payload-validation";
+export type { PayloadIssue, PayloadValidation } from "./payload-validation";
+export { encodeDeliveryBody, decodeDeliveryBody } from "./deliveries";
+export type { DecodeOptions, DecodedBody } from "./deliveries";
+export { createMockServer } from "./mock-server";
+export type { MockServerOptions } from "./mock-server";
@@ -0,0 +1,123 @@
+import * as crypto from "crypto";
+
+// Prefix of values encrypted with encryptSecret
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+// Key derivation and cipher settings for encrypted values
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+const CIPHER = "aes-256-gcm";
+
+// Number of leading characters left visible by redactSecret
+const VISIBLE_CHARS = 4;
+
+// Whether secrets are shown in full for this run
+let showSecrets = false;
+
+/**
+ * Sets whether secrets are shown in full for this run
+ * @param show True to show secrets unredacted
+ */
+export function setShowSecrets(show: boolean): void {
+  showSecrets = show;
+}
+
+/**
+ * Checks whether secrets are shown in full for this run
+ * @returns True if --show-secrets was given
+ */
+export function isShowingSecrets(): boolean {
+  return showSecrets;
+}
+
+/**
+ * Redacts a secret, keeping only its first few characters
+ * Short secrets are hidden entirely
+ * @param value Secret value
+ * @returns Redacted value, e.g. "abcd****"
+ */
+export function redactSecret(value: string): string {
+  if (value === "") return "";
+  return value.length > VISIBLE_CHARS * 2
+    ? `${value.slice(0, VISIBLE_CHARS)}****`
+    : "****";
+}
+
+/**
+ * Formats a secret for output, redacted unless --show-secrets was given
+ * @param value Secret value
+ * @returns Value to display
+ */
+export function displaySecret(value: string): string {
+  return showSecrets ? value : redactSecret(value);
+}
+
+/**
+ * Replaces the value of every api-key query parameter in a text
+ * @param text Text that may contain URLs, e.g. an error message
+ * @returns Text with the API keys redacted
+ */
+export function scrubSecrets(text: string): string {
+  return text.replace(/([?&]api-key=)[^&\s"']+/gi, "$1****");
+}
+
+/**
+ * Checks whether a value was encrypted with encryptSecret
+ * @param value Stored value
+ * @returns True if the value is encrypted
+ */
+export function isEncrypted(value: string | undefined): boolean {
+  return Boolean(value && value.startsWith(ENCRYPTED_PREFIX));
+}
+
+/**
+ * Encrypts a secret with a passphrase
+ * The key is derived with scrypt from the passphrase and a random salt, and
+ * the value is sealed with AES-256-GCM so that a wrong passphrase is detected
+ * @param value Secret value
+ * @param passphrase Passphrase
+ * @returns Encrypted value, safe to store as a string
+ */
+export function encryptSecret(value: string, passphrase: string): string {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const key = crypto.scryptSync(passphrase, salt, KEY_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const encrypted = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+  return `${ENCRYPTED_PREFIX}${[salt, iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64"))
+    .join(":")}`;
+}
+
+/**
+ * Decrypts a value encrypted with encryptSecret
+ * @param value Encrypted value
+ * @param passphrase Passphrase
+ * @returns Secret value
+ */
+export function decryptSecret(value: string, passphrase: string): string {
+  const parts = value
+    .slice(ENCRYPTED_PREFIX.length)
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+  if (!isEncrypted(value) || parts.length !== 4) {
+    throw new Error("Invalid encrypted value");
+  }
+
+  const [salt, iv, tag, encrypted] = parts;
+  const key = crypto.scryptSync(passphrase, salt, KEY_LENGTH);
+  const decipher = crypto.createDecipheriv(CIPHER, key, iv);
+  decipher.setAuthTag(tag);
+  try {
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new Error("Wrong passphrase for the encrypted configuration");
+  }
+}
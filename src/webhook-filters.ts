@@ -0,0 +1,157 @@
+import { Network, NETWORKS, Webhook, webhookNetwork } from "./client";
+import { TRANSACTION_TYPES, WEBHOOK_TYPES } from "./constants";
+
+// Keys `webhooks list` can sort by
+export const WEBHOOK_SORT_KEYS = ["id", "url", "type", "addresses"];
+
+export type WebhookSortKey = "id" | "url" | "type" | "addresses";
+
+// Criteria a webhook must meet to be listed; unset criteria match everything
+export interface WebhookFilter {
+  type?: string;
+  network?: Network;
+  urlContains?: string;
+  // Matches webhooks monitoring any of these transaction types
+  txTypes?: string[];
+  hasAddress?: string;
+  minAddresses?: number;
+  maxAddresses?: number;
+}
+
+/**
+ * Parses a non-negative integer filter option
+ * @param name Option name, for the error message
+ * @param value Option value
+ * @returns Parsed number, or undefined if the option was not given
+ */
+function parseCount(name: string, value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${name}: ${value} (expected a whole number)`);
+  }
+  return count;
+}
+
+/**
+ * Builds a webhook filter from command options
+ * @param options Command options
+ * @returns Webhook filter
+ */
+export function parseWebhookFilter(options: {
+  type?: string;
+  network?: string;
+  urlContains?: string;
+  txType?: string;
+  hasAddress?: string;
+  minAddresses?: string;
+  maxAddresses?: string;
+}): WebhookFilter {
+  if (options.type && !WEBHOOK_TYPES.includes(options.type)) {
+    throw new Error(
+      `Invalid webhook type: ${
+        options.type
+      } (valid types are: ${WEBHOOK_TYPES.join(", ")})`
+    );
+  }
+  if (options.network && !NETWORKS.includes(options.network as Network)) {
+    throw new Error(
+      `Invalid network: ${options.network} (valid networks are: ${NETWORKS.join(
+        ", "
+      )})`
+    );
+  }
+
+  const txTypes = options.txType
+    ?.split(",")
+    .map((t) => t.trim().toUpperCase())
+    .filter((t) => t !== "");
+  for (const type of txTypes || []) {
+    if (!TRANSACTION_TYPES.includes(type)) {
+      throw new Error(`Invalid transaction type: ${type}`);
+    }
+  }
+
+  return {
+    type: options.type,
+    network: options.network as Network | undefined,
+    urlContains: options.urlContains,
+    txTypes,
+    hasAddress: options.hasAddress,
+    minAddresses: parseCount("--min-addresses", options.minAddresses),
+    maxAddresses: parseCount("--max-addresses", options.maxAddresses),
+  };
+}
+
+/**
+ * Checks whether a webhook meets a filter
+ * A webhook monitoring ANY matches every transaction type
+ * @param webhook Webhook
+ * @param filter Webhook filter
+ * @returns True if the webhook should be listed
+ */
+export function matchesWebhookFilter(
+  webhook: Webhook,
+  filter: WebhookFilter
+): boolean {
+  const count = webhook.accountAddresses.length;
+  if (filter.type && webhook.webhookType !== filter.type) return false;
+  if (filter.network && webhookNetwork(webhook.webhookType) !== filter.network)
+    return false;
+  if (
+    filter.urlContains &&
+    !webhook.webhookURL.toLowerCase().includes(filter.urlContains.toLowerCase())
+  )
+    return false;
+  if (
+    filter.txTypes &&
+    filter.txTypes.length > 0 &&
+    !webhook.transactionTypes.includes("ANY") &&
+    !filter.txTypes.some((type) => webhook.transactionTypes.includes(type))
+  )
+    return false;
+  if (
+    filter.hasAddress &&
+    !webhook.accountAddresses.includes(filter.hasAddress)
+  )
+    return false;
+  if (filter.minAddresses !== undefined && count < filter.minAddresses)
+    return false;
+  if (filter.maxAddresses !== undefined && count > filter.maxAddresses)
+    return false;
+  return true;
+}
+
+/**
+ * Sorts webhooks by a key
+ * @param webhooks Webhooks to sort
+ * @param key Sort key
+ * @param descending Sort from largest to smallest
+ * @returns Sorted copy of the webhooks
+ */
+export function sortWebhooks(
+  webhooks: Webhook[],
+  key: WebhookSortKey,
+  descending = false
+): Webhook[] {
+  const value = (webhook: Webhook): string | number => {
+    switch (key) {
+      case "url":
+        return webhook.webhookURL;
+      case "type":
+        return webhook.webhookType;
+      case "addresses":
+        return webhook.accountAddresses.length;
+      default:
+        return webhook.webhookID;
+    }
+  };
+
+  const sorted = [...webhooks].sort((a, b) => {
+    const [x, y] = [value(a), value(b)];
+    return typeof x === "number" && typeof y === "number"
+      ? x - y
+      : String(x).localeCompare(String(y));
+  });
+  return descending ? sorted.reverse() : sorted;
+}
@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CONFIG_DIR, ensureConfigDir, getProfileName } from "./config";
+
+// A logical webhook whose addresses are sharded across several webhooks
+export interface WebhookGroup {
+  webhookIDs: string[];
+  createdAt: string;
+}
+
+// Result of redistributeAddresses
+export interface ShardPlan {
+  // New address list of each existing shard, in shard order
+  shards: string[][];
+  // Address lists for shards that need to be created
+  extra: string[][];
+}
+
+/**
+ * Gets the path to the file that records webhook groups
+ * Each profile has its own file, since webhook IDs belong to one account
+ * @returns Groups file path
+ */
+function groupsPath(): string {
+  return path.join(CONFIG_DIR, `webhook-groups.${getProfileName()}.json`);
+}
+
+/**
+ * Loads all webhook groups
+ * @returns Groups by name
+ */
+export function loadWebhookGroups(): Record<string, WebhookGroup> {
+  try {
+    if (fs.existsSync(groupsPath())) {
+      return JSON.parse(fs.readFileSync(groupsPath(), "utf8"));
+    }
+  } catch (error) {
+    console.error("Error loading webhook groups:", error);
+  }
+  return {};
+}
+
+/**
+ * Saves all webhook groups
+ * @param groups Groups by name
+ */
+export function saveWebhookGroups(groups: Record<string, WebhookGroup>): void {
+  try {
+    ensureConfigDir();
+    fs.writeFileSync(groupsPath(), JSON.stringify(groups, null, 2));
+  } catch (error) {
+    console.error("Error saving webhook groups:", error);
+  }
+}
+
+/**
+ * Gets a webhook group by name
+ * @param name Group name
+ * @returns The group
+ */
+export function getWebhookGroup(name: string): WebhookGroup {
+  const group = loadWebhookGroups()[name];
+  if (!group) {
+    throw new Error(`Webhook group ${name} does not exist`);
+  }
+  return group;
+}
+
+/**
+ * Records the members of a webhook group, creating the group if needed
+ * @param name Group name
+ * @param webhookIDs Member webhook IDs, in shard order
+ */
+export function recordWebhookGroup(name: string, webhookIDs: string[]): void {
+  const groups = loadWebhookGroups();
+  groups[name] = {
+    webhookIDs,
+    createdAt: groups[name]?.createdAt || new Date().toISOString(),
+  };
+  saveWebhookGroups(groups);
+}
+
+/**
+ * Forgets a webhook group
+ * @param name Group name
+ */
+export function forgetWebhookGroup(name: string): void {
+  const groups = loadWebhookGroups();
+  if (groups[name]) {
+    delete groups[name];
+    saveWebhookGroups(groups);
+  }
+}
+
+/**
+ * Finds the group a webhook belongs to
+ * @param webhookID Webhook ID
+ * @returns Group name, or undefined if the webhook is not in a group
+ */
+export function findWebhookGroup(webhookID: string): string | undefined {
+  const groups = loadWebhookGroups();
+  return Object.keys(groups).find((name) =>
+    groups[name].webhookIDs.includes(webhookID)
+  );
+}
+
+/**
+ * Splits an address list into shards of at most `limit` addresses
+ * @param addresses Addresses to split
+ * @param limit Maximum addresses per shard
+ * @returns Shards in order
+ */
+export function shardAddresses(addresses: string[], limit: number): string[][] {
+  const shards: string[][] = [];
+  for (let i = 0; i < addresses.length; i += limit) {
+    shards.push(addresses.slice(i, i + limit));
+  }
+  return shards;
+}
+
+/**
+ * Spreads a new address list over existing shards with as few moves as possible
+ * Addresses stay on the shard they are on; new addresses fill the free space
+ * of existing shards first, and overflow into extra shards
+ * @param current Current addresses of each shard
+ * @param addresses Addresses the whole group should monitor
+ * @param limit Maximum addresses per shard
+ * @returns New addresses of each existing shard, and any extra shards
+ */
+export function redistributeAddresses(
+  current: string[][],
+  addresses: string[],
+  limit: number
+): ShardPlan {
+  const wanted = new Set(addresses);
+  const placed = new Set<string>();
+
+  const shards = current.map((shard) => {
+    const kept: string[] = [];
+    for (const address of shard) {
+      if (kept.length < limit && wanted.has(address) && !placed.has(address)) {
+        kept.push(address);
+        placed.add(address);
+      }
+    }
+    return kept;
+  });
+
+  const remaining = addresses.filter((address) => !placed.has(address));
+  let next = 0;
+
+  for (const shard of shards) {
+    const free = Math.max(0, limit - shard.length);
+    shard.push(...remaining.slice(next, next + free));
+    next += free;
+  }
+
+  return { shards, extra: shardAddresses(remaining.slice(next), limit) };
+}
@@ -0,0 +1,151 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CONFIG_DIR, ensureConfigDir, getProfileName } from "./config";
+
+// A local name for a webhook
+export interface WebhookLabel {
+  webhookID: string;
+  note?: string;
+  createdAt: string;
+}
+
+// Label names: a letter followed by letters, digits, dots, dashes or underscores
+const LABEL_NAME = /^[A-Za-z][\w.-]*$/;
+
+// Helius webhook IDs are UUIDs
+const WEBHOOK_ID =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Checks whether a string is a full webhook ID
+ * @param value String to check
+ * @returns True for a UUID
+ */
+export function isWebhookID(value: string): boolean {
+  return WEBHOOK_ID.test(value);
+}
+
+/**
+ * Checks whether a string can be used as a label name
+ * Names that look like webhook IDs are rejected, so IDs are never shadowed
+ * @param name Label name
+ * @returns True if the name is valid
+ */
+export function isValidLabelName(name: string): boolean {
+  return LABEL_NAME.test(name) && !isWebhookID(name);
+}
+
+/**
+ * Gets the path to the file that records webhook labels
+ * Each profile has its own file, since webhook IDs belong to one account
+ * @returns Labels file path
+ */
+function labelsPath(): string {
+  return path.join(CONFIG_DIR, `webhook-labels.${getProfileName()}.json`);
+}
+
+/**
+ * Loads all webhook labels
+ * @returns Labels by name
+ */
+export function loadWebhookLabels(): Record<string, WebhookLabel> {
+  try {
+    if (fs.existsSync(labelsPath())) {
+      return JSON.parse(fs.readFileSync(labelsPath(), "utf8"));
+    }
+  } catch (error) {
+    console.error("Error loading webhook labels:", error);
+  }
+  return {};
+}
+
+/**
+ * Saves all webhook labels
+ * @param labels Labels by name
+ */
+export function saveWebhookLabels(labels: Record<string, WebhookLabel>): void {
+  try {
+    ensureConfigDir();
+    fs.writeFileSync(labelsPath(), JSON.stringify(labels, null, 2));
+  } catch (error) {
+    console.error("Error saving webhook labels:", error);
+  }
+}
+
+/**
+ * Points a label at a webhook, replacing any label of the same name
+ * @param name Label name
+ * @param webhookID Webhook ID
+ * @param note Optional note
+ */
+export function recordWebhookLabel(
+  name: string,
+  webhookID: string,
+  note?: string
+): void {
+  const labels = loadWebhookLabels();
+  labels[name] = {
+    webhookID,
+    ...(note ? { note } : {}),
+    createdAt: new Date().toISOString(),
+  };
+  saveWebhookLabels(labels);
+}
+
+/**
+ * Forgets a label
+ * @param name Label name
+ * @returns True if the label existed
+ */
+export function forgetWebhookLabel(name: string): boolean {
+  const labels = loadWebhookLabels();
+  if (!labels[name]) {
+    return false;
+  }
+  delete labels[name];
+  saveWebhookLabels(labels);
+  return true;
+}
+
+/**
+ * Forgets every label of a webhook
+ * @param webhookID Webhook ID
+ */
+export function forgetWebhookLabels(webhookID: string): void {
+  const labels = loadWebhookLabels();
+  const names = Object.keys(labels).filter(
+    (name) => labels[name].webhookID === webhookID
+  );
+  if (names.length > 0) {
+    names.forEach((name) => delete labels[name]);
+    saveWebhookLabels(labels);
+  }
+}
+
+/**
+ * Groups label names by the webhook they point at
+ * @param labels Labels by name
+ * @returns Label names by webhook ID
+ */
+export function labelsByWebhook(
+  labels: Record<string, WebhookLabel> = loadWebhookLabels()
+): Record<string, string[]> {
+  const byWebhook: Record<string, string[]> = {};
+  for (const [name, label] of Object.entries(labels)) {
+    byWebhook[label.webhookID] = [...(byWebhook[label.webhookID] || []), name];
+  }
+  return byWebhook;
+}
+
+/**
+ * Finds the labels pointing at webhooks that no longer exist
+ * @param webhookIDs IDs of the existing webhooks
+ * @returns Names of the stale labels
+ */
+export function findStaleLabels(webhookIDs: string[]): string[] {
+  const existing = new Set(webhookIDs);
+  const labels = loadWebhookLabels();
+  return Object.keys(labels).filter(
+    (name) => !existing.has(labels[name].webhookID)
+  );
+}
@@ -0,0 +1,207 @@
+import { Webhook } from "./client";
+import {
+  COMPRESSION_OPTIONS,
+  ENCODING_FORMATS,
+  ENCODING_OPTIONS,
+  TRANSACTION_TYPES,
+  TXN_STATUS_OPTIONS,
+  WEBHOOK_TYPES,
+} from "./constants";
+
+// A rule a webhook breaks, with how to fix it
+export interface RuleViolation {
+  field:
+    | "webhookURL"
+    | "webhookType"
+    | "transactionTypes"
+    | "txnStatus"
+    | "encoding"
+    | "encoding_config";
+  message: string;
+  hint?: string;
+}
+
+// Discord webhook URLs, including the ptb and canary clients and the legacy domain
+const DISCORD_WEBHOOK_URL =
+  /^https:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/\d+\/[\w-]+\/?$/;
+
+/**
+ * Checks whether a URL is a Discord webhook URL
+ * @param url URL to check
+ * @returns True for https://discord.com/api/webhooks/<id>/<token> and its variants
+ */
+export function isDiscordWebhookURL(url: string): boolean {
+  return DISCORD_WEBHOOK_URL.test(url);
+}
+
+/**
+ * Gets the transaction types a webhook type can monitor
+ * Raw webhooks deliver transactions unparsed, so they cannot filter by type
+ * @param webhookType Webhook type
+ * @returns Allowed transaction types
+ */
+export function allowedTransactionTypes(webhookType: string): string[] {
+  return webhookType.startsWith("raw") ? ["ANY"] : TRANSACTION_TYPES;
+}
+
+/**
+ * Checks the webhook URL against the rules of a webhook type
+ * @param webhookType Webhook type
+ * @param webhookURL Webhook URL
+ * @returns The violation, if any
+ */
+export function checkWebhookURL(
+  webhookType: string,
+  webhookURL: string
+): RuleViolation | undefined {
+  let url: URL;
+  try {
+    url = new URL(webhookURL);
+  } catch (error) {
+    return {
+      field: "webhookURL",
+      message: `Invalid webhook URL: ${webhookURL}`,
+    };
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return {
+      field: "webhookURL",
+      message: `Webhook URL must use http or https: ${webhookURL}`,
+    };
+  }
+
+  const discordType = webhookType.startsWith("discord");
+  const discordURL = isDiscordWebhookURL(webhookURL);
+  if (discordType && !discordURL) {
+    return {
+      field: "webhookURL",
+      message: `${webhookType} webhooks must point at a Discord webhook URL`,
+      hint: "Copy the URL from Discord: Server Settings > Integrations > Webhooks (https://discord.com/api/webhooks/<id>/<token>)",
+    };
+  }
+  if (!discordType && discordURL) {
+    return {
+      field: "webhookType",
+      message: `Discord webhook URLs need a discord webhook type, not ${webhookType}`,
+      hint: "Use --type discord or discordDevnet",
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Checks transaction types against the rules of a webhook type
+ * @param webhookType Webhook type
+ * @param transactionTypes Transaction types
+ * @returns The violation, if any
+ */
+export function checkTransactionTypes(
+  webhookType: string,
+  transactionTypes: string[]
+): RuleViolation | undefined {
+  if (transactionTypes.length === 0) {
+    return {
+      field: "transactionTypes",
+      message: "At least one transaction type is required",
+    };
+  }
+
+  const unknown = transactionTypes.filter(
+    (type) => !TRANSACTION_TYPES.includes(type)
+  );
+  if (unknown.length > 0) {
+    return {
+      field: "transactionTypes",
+      message: `Invalid transaction types: ${unknown.join(", ")}`,
+      hint: `Valid types are: ${TRANSACTION_TYPES.join(", ")}`,
+    };
+  }
+
+  if (transactionTypes.includes("ANY") && transactionTypes.length > 1) {
+    return {
+      field: "transactionTypes",
+      message: "ANY already covers every transaction type",
+      hint: "Use ANY on its own, or list only specific types",
+    };
+  }
+
+  const allowed = allowedTransactionTypes(webhookType);
+  const unsupported = transactionTypes.filter(
+    (type) => !allowed.includes(type)
+  );
+  if (unsupported.length > 0) {
+    return {
+      field: "transactionTypes",
+      message: `${webhookType} webhooks cannot filter by ${unsupported.join(
+        ", "
+      )}`,
+      hint: "Raw webhooks receive every transaction unparsed: use ANY, or an enhanced webhook type to filter by transaction type",
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Checks a webhook against every rule
+ * @param data Webhook fields
+ * @returns Every violation, in field order
+ */
+export function findRuleViolations(
+  data: Pick<
+    Webhook,
+    | "webhookURL"
+    | "webhookType"
+    | "transactionTypes"
+    | "txnStatus"
+    | "encoding"
+    | "encoding_config"
+  >
+): RuleViolation[] {
+  if (!WEBHOOK_TYPES.includes(data.webhookType)) {
+    return [
+      {
+        field: "webhookType",
+        message: `Invalid webhook type: ${data.webhookType}`,
+        hint: `Valid types are: ${WEBHOOK_TYPES.join(", ")}`,
+      },
+    ];
+  }
+
+  const violations = [
+    checkWebhookURL(data.webhookType, data.webhookURL),
+    checkTransactionTypes(data.webhookType, data.transactionTypes),
+  ].filter((v): v is RuleViolation => v !== undefined);
+
+  if (data.txnStatus && !TXN_STATUS_OPTIONS.includes(data.txnStatus)) {
+    violations.push({
+      field: "txnStatus",
+      message: `Invalid transaction status: ${data.txnStatus}`,
+      hint: `Valid options are: ${TXN_STATUS_OPTIONS.join(", ")}`,
+    });
+  }
+  if (data.encoding && !ENCODING_OPTIONS.includes(data.encoding)) {
+    violations.push({
+      field: "encoding",
+      message: `Invalid encoding: ${data.encoding}`,
+      hint: `Valid encodings are: ${ENCODING_OPTIONS.join(", ")}`,
+    });
+  }
+  if (data.encoding_config) {
+    const { format, compression } = data.encoding_config;
+    if (!ENCODING_FORMATS.includes(format)) {
+      violations.push({
+        field: "encoding_config",
+        message: `Invalid encoding format: ${format}`,
+        hint: `Valid formats are: ${ENCODING_FORMATS.join(", ")}`,
+      });
+    }
+    if (!COMPRESSION_OPTIONS.includes(compression)) {
+      violations.push({
+        field: "encoding_config",
+        message: `Invalid compression: ${compression}`,
+        hint: `Valid compressions are: ${COMPRESSION_OPTIONS.join(", ")}`,
+      });
+    }
+  }
+  return violations;
+}
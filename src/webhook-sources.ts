@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import * as path from "path";
+import { AssetFilters, AssetSource } from "./asset-sources";
+import { CONFIG_DIR, ensureConfigDir, getProfileName } from "./config";
+
+// An on-chain source a webhook was built from, with the options it was resolved with
+export interface TrackedSource extends AssetSource {
+  filters: AssetFilters;
+  limit?: number;
+}
+
+// Sources of one webhook (or webhook group) and the addresses they resolved to at the last sync
+export interface WebhookSources {
+  sources: TrackedSource[];
+  resolved: string[];
+  syncedAt: string;
+}
+
+// Address changes computed by planSync
+export interface SyncPlan {
+  added: string[];
+  removed: string[];
+  addresses: string[];
+}
+
+// Prefix of the keys that record the sources of a webhook group
+const GROUP_KEY_PREFIX = "group:";
+
+/**
+ * Gets the key that records the sources of a webhook group
+ * Groups are keyed by name, since their member webhooks change over time
+ * @param name Group name
+ * @returns Sources key
+ */
+export function groupSourcesKey(name: string): string {
+  return `${GROUP_KEY_PREFIX}${name}`;
+}
+
+/**
+ * Gets the group name of a sources key
+ * @param key Sources key
+ * @returns Group name, or undefined if the key belongs to a single webhook
+ */
+export function groupNameOfKey(key: string): string | undefined {
+  return key.startsWith(GROUP_KEY_PREFIX)
+    ? key.slice(GROUP_KEY_PREFIX.length)
+    : undefined;
+}
+
+/**
+ * Gets the path to the file that records webhook sources
+ * Each profile has its own file, since webhook IDs belong to one account
+ * @returns Sources file path
+ */
+function sourcesPath(): string {
+  return path.join(CONFIG_DIR, `webhook-sources.${getProfileName()}.json`);
+}
+
+/**
+ * Loads the recorded sources of all webhooks
+ * @returns Sources by webhook ID
+ */
+export function loadWebhookSources(): Record<string, WebhookSources> {
+  try {
+    if (fs.existsSync(sourcesPath())) {
+      return JSON.parse(fs.readFileSync(sourcesPath(), "utf8"));
+    }
+  } catch (error) {
+    console.error("Error loading webhook sources:", error);
+  }
+  return {};
+}
+
+/**
+ * Saves the recorded sources of all webhooks
+ * @param store Sources by webhook ID
+ */
+export function saveWebhookSources(
+  store: Record<string, WebhookSources>
+): void {
+  try {
+    ensureConfigDir();
+    fs.writeFileSync(sourcesPath(), JSON.stringify(store, null, 2));
+  } catch (error) {
+    console.error("Error saving webhook sources:", error);
+  }
+}
+
+/**
+ * Records sources for a webhook, merging them with any already recorded
+ * A source that is recorded again replaces the old entry
+ * @param webhookID Webhook ID, or a groupSourcesKey
+ * @param sources Sources the addresses were resolved from
+ * @param resolved Addresses the sources resolved to
+ */
+export function recordWebhookSources(
+  webhookID: string,
+  sources: TrackedSource[],
+  resolved: string[]
+): void {
+  const store = loadWebhookSources();
+  const existing = store[webhookID];
+  const isSame = (a: AssetSource, b: AssetSource) =>
+    a.kind === b.kind && a.address === b.address;
+
+  store[webhookID] = {
+    sources: [
+      ...(existing?.sources || []).filter(
+        (old) => !sources.some((source) => isSame(old, source))
+      ),
+      ...sources,
+    ],
+    resolved: Array.from(new Set([...(existing?.resolved || []), ...resolved])),
+    syncedAt: new Date().toISOString(),
+  };
+  saveWebhookSources(store);
+}
+
+/**
+ * Forgets the sources of a webhook
+ * @param webhookID Webhook ID, or a groupSourcesKey
+ */
+export function forgetWebhookSources(webhookID: string): void {
+  const store = loadWebhookSources();
+  if (store[webhookID]) {
+    delete store[webhookID];
+    saveWebhookSources(store);
+  }
+}
+
+/**
+ * Computes the address changes needed to bring a webhook in line with its sources
+ * Only addresses that came from the sources are removed, so manually added
+ * addresses are kept
+ * @param current Current addresses of the webhook
+ * @param previous Addresses the sources resolved to at the last sync
+ * @param resolved Addresses the sources resolve to now
+ * @returns Added and removed addresses, and the new address list
+ */
+export function planSync(
+  current: string[],
+  previous: string[],
+  resolved: string[]
+): SyncPlan {
+  const currentSet = new Set(current);
+  const resolvedSet = new Set(resolved);
+
+  const removed = previous.filter(
+    (address) => !resolvedSet.has(address) && currentSet.has(address)
+  );
+  const added = resolved.filter((address) => !currentSet.has(address));
+  const removedSet = new Set(removed);
+
+  return {
+    added,
+    removed,
+    addresses: [...current.filter((a) => !removedSet.has(a)), ...added],
+  };
+}